@@ -0,0 +1,257 @@
+/**
+ * Clipboard - where "+ and "* (and plain yanks) go ('clipboard' option)
+ *
+ * - system: the platform's clipboard commands (pbcopy, wl-copy, xclip, xsel, ...), the first that works
+ * - osc52: the terminal's clipboard through OSC 52 escape sequences, which also works over SSH;
+ *   reading needs a terminal that answers OSC 52 queries
+ * - tmux: tmux's paste buffer (load-buffer -w also hands it to the outer terminal)
+ * - internal: this editor only
+ * - auto: system when there is a display to copy to, else tmux inside tmux, else osc52
+ *
+ * Providers are asynchronous so a slow or missing command never blocks the TUI.
+ * ClipboardCache keeps the text last read or written: writes update it at once,
+ * and "+ / "* paste from it after a read started when the register is selected.
+ */
+
+import { spawn } from "node:child_process";
+
+export type ClipboardName = "auto" | "system" | "osc52" | "tmux" | "internal";
+
+export interface ClipboardProvider {
+	/** Missing when nothing outside the cache can change the clipboard. */
+	read?(): Promise<string>;
+	write(text: string): Promise<void>;
+}
+
+/** The terminal as OSC 52 needs it: pi-tui's TUI. */
+export interface ClipboardTerminal {
+	terminal: { write(data: string): void };
+	addInputListener(listener: (data: string) => { consume?: boolean } | undefined): () => void;
+}
+
+export class ClipboardError extends Error {}
+
+const COMMAND_TIMEOUT = 5000;
+const OSC52_TIMEOUT = 2000;
+
+/**
+ * Run a clipboard command: with `input`, write it to the command's stdin;
+ * otherwise resolve with its output.
+ */
+function runCommand(command: string[], input?: string): Promise<string> {
+	const [program, ...args] = command;
+	return new Promise((resolve, reject) => {
+		// A writer such as wl-copy or xclip forks a server that keeps the clipboard, so its
+		// output is ignored and it is done when it exits rather than when its pipes close.
+		const child = spawn(program!, args, {
+			stdio: input === undefined ? ["ignore", "pipe", "pipe"] : ["pipe", "ignore", "pipe"],
+			timeout: COMMAND_TIMEOUT,
+		});
+		let output = "";
+		let errors = "";
+		child.stdout?.setEncoding("utf8").on("data", (chunk: string) => {
+			output += chunk;
+		});
+		child.stderr?.setEncoding("utf8").on("data", (chunk: string) => {
+			errors += chunk;
+		});
+		child.on("error", (error: NodeJS.ErrnoException) => {
+			reject(new ClipboardError(`${program}: ${error.code === "ENOENT" ? "not found" : error.message}`));
+		});
+		child.on(input === undefined ? "close" : "exit", (code: number | null) => {
+			if (code === 0) {
+				resolve(output);
+				return;
+			}
+			const reason = child.killed ? "timed out" : (errors.trim().split("\n")[0] ?? "") || `exited with ${code}`;
+			reject(new ClipboardError(`${program}: ${reason}`));
+		});
+		if (child.stdin) {
+			// The command may exit before reading everything.
+			child.stdin.on("error", () => {});
+			child.stdin.end(input);
+		}
+	});
+}
+
+interface ClipboardCommands {
+	read: string[];
+	write: string[];
+}
+
+function systemCommands(): ClipboardCommands[] {
+	if (process.platform === "darwin") {
+		return [{ read: ["pbpaste"], write: ["pbcopy"] }];
+	}
+	if (process.platform === "win32") {
+		return [{ read: ["powershell", "-NoProfile", "-Command", "Get-Clipboard"], write: ["clip"] }];
+	}
+	const commands: ClipboardCommands[] = [];
+	if (process.env.TERMUX_VERSION) {
+		commands.push({ read: ["termux-clipboard-get"], write: ["termux-clipboard-set"] });
+	}
+	if (process.env.WAYLAND_DISPLAY || process.env.XDG_SESSION_TYPE === "wayland") {
+		commands.push({ read: ["wl-paste", "--no-newline"], write: ["wl-copy"] });
+	}
+	commands.push(
+		{ read: ["xclip", "-selection", "clipboard", "-o"], write: ["xclip", "-selection", "clipboard"] },
+		{ read: ["xsel", "--clipboard", "--output"], write: ["xsel", "--clipboard", "--input"] },
+	);
+	return commands;
+}
+
+/**
+ * The first of the platform's commands that works, remembered once found.
+ */
+function systemProvider(): ClipboardProvider {
+	const commands = systemCommands();
+	let working: ClipboardCommands | null = null;
+
+	const run = async (pick: (candidate: ClipboardCommands) => string[], input?: string): Promise<string> => {
+		if (working) {
+			return runCommand(pick(working), input);
+		}
+		const failures: string[] = [];
+		for (const candidate of commands) {
+			try {
+				const output = await runCommand(pick(candidate), input);
+				working = candidate;
+				return output;
+			} catch (error) {
+				failures.push((error as Error).message);
+			}
+		}
+		throw new ClipboardError(`no clipboard command worked (${failures.join("; ")})`);
+	};
+
+	return {
+		read: () => run((candidate) => candidate.read),
+		write: async (text) => {
+			await run((candidate) => candidate.write, text);
+		},
+	};
+}
+
+function osc52Provider(tui: ClipboardTerminal): ClipboardProvider {
+	return {
+		read: () =>
+			new Promise((resolve, reject) => {
+				const timer = setTimeout(() => {
+					removeListener();
+					reject(new ClipboardError("the terminal did not answer the OSC 52 query (reading may be disabled)"));
+				}, OSC52_TIMEOUT);
+				const removeListener = tui.addInputListener((data) => {
+					const reply = data.match(/^\x1b\]52;[^;]*;([A-Za-z0-9+/=]*)(?:\x07|\x1b\\)$/);
+					if (!reply) {
+						return undefined;
+					}
+					clearTimeout(timer);
+					removeListener();
+					resolve(Buffer.from(reply[1]!, "base64").toString("utf8"));
+					return { consume: true };
+				});
+				tui.terminal.write("\x1b]52;c;?\x07");
+			}),
+		write: async (text) => {
+			tui.terminal.write(`\x1b]52;c;${Buffer.from(text).toString("base64")}\x07`);
+		},
+	};
+}
+
+function tmuxProvider(): ClipboardProvider {
+	return {
+		read: () => runCommand(["tmux", "save-buffer", "-"]),
+		write: async (text) => {
+			await runCommand(["tmux", "load-buffer", "-w", "-"], text);
+		},
+	};
+}
+
+function internalProvider(): ClipboardProvider {
+	return { write: async () => {} };
+}
+
+function resolveAuto(): Exclude<ClipboardName, "auto"> {
+	const hasDisplay =
+		process.platform === "darwin" ||
+		process.platform === "win32" ||
+		Boolean(process.env.TERMUX_VERSION || process.env.WAYLAND_DISPLAY || process.env.DISPLAY);
+	if (hasDisplay) {
+		return "system";
+	}
+	return process.env.TMUX ? "tmux" : "osc52";
+}
+
+/**
+ * The clipboard text last read or written, kept in step with the provider the
+ * 'clipboard' option names. Failures go to `onError`; the cached text stays.
+ */
+export class ClipboardCache {
+	private text: string | null = null;
+	private readonly providers = new Map<ClipboardName, ClipboardProvider>();
+	private reading: Promise<void> | null = null;
+
+	constructor(
+		private readonly tui: ClipboardTerminal,
+		private readonly getName: () => ClipboardName,
+		private readonly onError: (message: string) => void,
+	) {}
+
+	get(): string | null {
+		return this.text;
+	}
+
+	set(text: string): void {
+		this.text = text;
+		this.provider()
+			.write(text)
+			.catch((error: Error) => this.onError(`clipboard: ${error.message}`));
+	}
+
+	/**
+	 * Read the clipboard into the cache. Calls made while a read is running share
+	 * it; null when the provider has nothing to read (the cache is the clipboard).
+	 */
+	refresh(): Promise<void> | null {
+		const provider = this.provider();
+		if (!provider.read) {
+			return null;
+		}
+		this.reading ??= provider
+			.read()
+			.then(
+				(text) => {
+					this.text = text;
+				},
+				(error: Error) => this.onError(`clipboard: ${error.message}`),
+			)
+			.finally(() => {
+				this.reading = null;
+			});
+		return this.reading;
+	}
+
+	private provider(): ClipboardProvider {
+		const configured = this.getName();
+		const name = configured === "auto" ? resolveAuto() : configured;
+		let provider = this.providers.get(name);
+		if (!provider) {
+			provider = createProvider(name, this.tui);
+			this.providers.set(name, provider);
+		}
+		return provider;
+	}
+}
+
+function createProvider(name: Exclude<ClipboardName, "auto">, tui: ClipboardTerminal): ClipboardProvider {
+	switch (name) {
+		case "system":
+			return systemProvider();
+		case "osc52":
+			return osc52Provider(tui);
+		case "tmux":
+			return tmuxProvider();
+		case "internal":
+			return internalProvider();
+	}
+}
@@ -0,0 +1,44 @@
+/**
+ * Cursor shapes - the terminal cursor per mode ('guicursor')
+ *
+ * The option maps mode groups to shapes, vim style: "n-v:block,i:bar,r-o:underline".
+ * Modes are n (normal), v (all visual modes), i (insert), r (replace) and o
+ * (operator pending); shapes are block, bar and underline. A mode left out keeps
+ * the terminal's own shape, and an empty value turns the feature off.
+ *
+ * Shapes are set with DECSCUSR. There is no portable way to ask a terminal for
+ * its current shape, so restoring writes "default" (0), which is the shape the
+ * user configured in the terminal.
+ */
+
+export type CursorMode = "n" | "v" | "i" | "r" | "o";
+
+export const RESET_CURSOR_SHAPE = "\x1b[0 q";
+
+const SHAPE_SEQUENCES = new Map([
+	["block", "\x1b[2 q"],
+	["underline", "\x1b[4 q"],
+	["bar", "\x1b[6 q"],
+]);
+
+/**
+ * The DECSCUSR sequence for each listed mode, or null when `text` is not a valid
+ * 'guicursor' value.
+ */
+export function parseCursorShapes(text: string): Map<CursorMode, string> | null {
+	const shapes = new Map<CursorMode, string>();
+	if (text === "") {
+		return shapes;
+	}
+	for (const entry of text.split(",")) {
+		const parsed = entry.match(/^([nviro](?:-[nviro])*):([a-z]+)$/);
+		const sequence = parsed ? SHAPE_SEQUENCES.get(parsed[2]!) : undefined;
+		if (!parsed || !sequence) {
+			return null;
+		}
+		for (const mode of parsed[1]!.split("-")) {
+			shapes.set(mode as CursorMode, sequence);
+		}
+	}
+	return shapes;
+}
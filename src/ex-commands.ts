@@ -0,0 +1,379 @@
+/**
+ * Ex commands - parsing and line operations for the : command line
+ *
+ * - Ranges: N, ., $, 'x marks, +N/-N offsets, N,M and % for the whole buffer
+ * - :s/pat/rep/[giIn] with \1-\9, & and \0 for matches and \n for line breaks; patterns
+ *   are search patterns (vim's magic syntax, see search.ts)
+ * - :g/pat/cmd, :g!/pat/cmd and :v/pat/cmd run cmd on every (non-)matching line
+ * - :d [x] [count], :m {address}, :t / :co {address}, :p
+ *
+ * Line numbers are 0-based here; the user-facing 1-based numbers are converted
+ * while parsing. Commands work on a list of line objects so :g can follow the
+ * lines it marked while earlier commands move or delete lines around them.
+ */
+
+export class ExError extends Error {}
+
+export interface ExLine {
+	text: string;
+}
+
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+export interface ExCommand {
+	range: LineRange | null;
+	/** Full command name, or "" for a bare range such as :12. */
+	name: string;
+	bang: boolean;
+	arg: string;
+}
+
+export interface AddressContext {
+	cursorLine: number;
+	lineCount: number;
+	mark(name: string): number | null;
+}
+
+export interface SubstituteCommand {
+	pattern: string;
+	replacement: string;
+	flags: string;
+}
+
+/** [full name, shortest accepted abbreviation length] */
+const COMMAND_NAMES: [string, number][] = [
+	["substitute", 1],
+	["global", 1],
+	["vglobal", 1],
+	["delete", 1],
+	["move", 1],
+	["t", 1],
+	["copy", 2],
+	["print", 1],
+	["normal", 4],
+	["nohlsearch", 3],
+	["undo", 1],
+	["undolist", 5],
+	["redo", 3],
+	["earlier", 2],
+	["later", 3],
+	["map", 3],
+	["noremap", 2],
+	["unmap", 3],
+	["nmap", 2],
+	["nnoremap", 2],
+	["nunmap", 3],
+	["vmap", 2],
+	["vnoremap", 2],
+	["vunmap", 2],
+	["xmap", 2],
+	["xnoremap", 2],
+	["xunmap", 2],
+	["omap", 2],
+	["onoremap", 3],
+	["ounmap", 2],
+	["imap", 2],
+	["inoremap", 3],
+	["iunmap", 2],
+	["let", 3],
+	["set", 2],
+];
+
+export function resolveCommandName(name: string): string | null {
+	if (name.length === 0) {
+		return "";
+	}
+	for (const [full, minLength] of COMMAND_NAMES) {
+		if (name.length >= minLength && full.startsWith(name)) {
+			return full;
+		}
+	}
+	return null;
+}
+
+export function parseExCommand(text: string, context: AddressContext): ExCommand {
+	let rest = text.replace(/^[:\s]+/, "");
+	let range: LineRange | null = null;
+
+	if (rest.startsWith("%")) {
+		range = { start: 0, end: context.lineCount - 1 };
+		rest = rest.slice(1);
+	} else {
+		const first = parseAddress(rest, context);
+		rest = first.rest;
+		if (first.line !== null || rest.startsWith(",")) {
+			const start = first.line ?? context.cursorLine;
+			let end = start;
+			if (rest.startsWith(",")) {
+				const second = parseAddress(rest.slice(1), context);
+				rest = second.rest;
+				end = second.line ?? context.cursorLine;
+			}
+			range = start <= end ? { start, end } : { start: end, end: start };
+		}
+	}
+
+	rest = rest.trimStart();
+	const match = rest.match(/^([a-zA-Z]*)(!?)\s*([\s\S]*)$/);
+	const name = resolveCommandName(match?.[1] ?? "");
+	if (!match || name === null) {
+		throw new ExError(`E492: Not an editor command: ${text.trim()}`);
+	}
+	return { range, name, bang: match[2] === "!", arg: match[3] ?? "" };
+}
+
+/**
+ * Parse one address (a line number, ., $ or 'x followed by +N/-N offsets).
+ * Line numbers come back 0-based, so "0" (before the first line) becomes -1.
+ */
+export function parseAddress(text: string, context: AddressContext): { line: number | null; rest: string } {
+	let rest = text.trimStart();
+	let line: number | null = null;
+
+	const base = rest.match(/^(\d+|\.|\$|'.)/);
+	if (base) {
+		const token = base[1]!;
+		if (token === ".") {
+			line = context.cursorLine;
+		} else if (token === "$") {
+			line = context.lineCount - 1;
+		} else if (token.startsWith("'")) {
+			line = context.mark(token.slice(1));
+			if (line === null) {
+				throw new ExError("E20: Mark not set");
+			}
+		} else {
+			line = Number.parseInt(token, 10) - 1;
+		}
+		rest = rest.slice(token.length);
+	}
+
+	for (let offset = rest.match(/^\s*([+-])(\d*)/); offset; offset = rest.match(/^\s*([+-])(\d*)/)) {
+		const amount = offset[2] ? Number.parseInt(offset[2], 10) : 1;
+		line = (line ?? context.cursorLine) + (offset[1] === "+" ? amount : -amount);
+		rest = rest.slice(offset[0].length);
+	}
+
+	return { line, rest };
+}
+
+/**
+ * Read text up to the next unescaped delimiter. An escaped delimiter loses its
+ * backslash; other escapes are kept for the regex or replacement to interpret.
+ */
+export function readDelimited(text: string, delimiter: string): { value: string; rest: string; closed: boolean } {
+	let value = "";
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i]!;
+		if (char === "\\" && i + 1 < text.length) {
+			const next = text[i + 1]!;
+			value += next === delimiter ? next : `${char}${next}`;
+			i += 1;
+			continue;
+		}
+		if (char === delimiter) {
+			return { value, rest: text.slice(i + 1), closed: true };
+		}
+		value += char;
+	}
+	return { value, rest: "", closed: false };
+}
+
+export function parseSubstitute(arg: string): SubstituteCommand | null {
+	const delimiter = arg[0];
+	if (!delimiter || /[\w\s\\"|]/.test(delimiter)) {
+		return null;
+	}
+	const pattern = readDelimited(arg.slice(1), delimiter);
+	const replacement = readDelimited(pattern.rest, delimiter);
+	return { pattern: pattern.value, replacement: replacement.value, flags: replacement.rest.trim() };
+}
+
+/**
+ * Split :g/pat/cmd into its pattern and command.
+ */
+export function parseGlobal(arg: string): { pattern: string; command: string } {
+	const delimiter = arg[0];
+	if (!delimiter || /[\w\s\\"|]/.test(delimiter)) {
+		throw new ExError("E476: Invalid command");
+	}
+	const pattern = readDelimited(arg.slice(1), delimiter);
+	return { pattern: pattern.value, command: pattern.rest.trim() };
+}
+
+/**
+ * Expand a vim replacement string for one match: & and \0 insert the whole match,
+ * \1-\9 capture groups, \n and \r a line break, \t a tab.
+ */
+export function expandReplacement(replacement: string, match: RegExpMatchArray): string {
+	let result = "";
+	for (let i = 0; i < replacement.length; i++) {
+		const char = replacement[i]!;
+		if (char === "&") {
+			result += match[0];
+			continue;
+		}
+		if (char !== "\\" || i + 1 >= replacement.length) {
+			result += char;
+			continue;
+		}
+
+		const next = replacement[++i]!;
+		if (/[0-9]/.test(next)) {
+			result += match[Number(next)] ?? "";
+		} else if (next === "n" || next === "r") {
+			result += "\n";
+		} else if (next === "t") {
+			result += "\t";
+		} else {
+			result += next;
+		}
+	}
+	return result;
+}
+
+export class ExBuffer {
+	lines: ExLine[];
+	cursorLine: number;
+	/** Cursor column after the command, or null for the first non-blank. */
+	cursorCol: number | null = null;
+
+	constructor(texts: string[], cursorLine: number) {
+		this.lines = texts.map((text) => ({ text }));
+		this.cursorLine = cursorLine;
+	}
+
+	texts(): string[] {
+		return this.lines.map((line) => line.text);
+	}
+
+	lastLine(): number {
+		return this.lines.length - 1;
+	}
+
+	checkRange(range: LineRange): LineRange {
+		const start = Math.max(0, range.start);
+		if (range.end < 0 || range.end > this.lastLine()) {
+			throw new ExError("E16: Invalid range");
+		}
+		return { start, end: range.end };
+	}
+
+	checkAddress(line: number): number {
+		if (line < -1 || line > this.lastLine()) {
+			throw new ExError("E16: Invalid range");
+		}
+		return line;
+	}
+
+	/**
+	 * Replace matches of `regex` (which must have the g flag) on each line of the
+	 * range. Returns the number of substitutions and lines changed.
+	 */
+	substitute(range: LineRange, regex: RegExp, replacement: string, global: boolean): { count: number; lines: number } {
+		let count = 0;
+		let changedLines = 0;
+		let end = range.end;
+
+		for (let index = range.start; index <= end; index++) {
+			const line = this.lines[index]!;
+			let lineCount = 0;
+			let text = "";
+			let last = 0;
+			for (const match of line.text.matchAll(regex)) {
+				if (!global && lineCount > 0) {
+					break;
+				}
+				const start = match.index ?? 0;
+				text += line.text.slice(last, start) + expandReplacement(replacement, match);
+				last = start + match[0].length;
+				lineCount += 1;
+			}
+			if (lineCount === 0) {
+				continue;
+			}
+
+			text += line.text.slice(last);
+			count += lineCount;
+			changedLines += 1;
+			const [first, ...added] = text.split("\n");
+			line.text = first ?? "";
+			if (added.length > 0) {
+				// Lines split off by \n are not searched again.
+				this.lines.splice(index + 1, 0, ...added.map((addedText) => ({ text: addedText })));
+				index += added.length;
+				end += added.length;
+			}
+			this.cursorLine = index;
+		}
+
+		this.cursorCol = null;
+		return { count, lines: changedLines };
+	}
+
+	deleteLines(range: LineRange): string[] {
+		const removed = this.lines.splice(range.start, range.end - range.start + 1);
+		if (this.lines.length === 0) {
+			this.lines.push({ text: "" });
+		}
+		this.cursorLine = Math.min(range.start, this.lastLine());
+		this.cursorCol = null;
+		return removed.map((line) => line.text);
+	}
+
+	/**
+	 * Move the range below `destination` (-1 moves it to the top).
+	 */
+	moveLines(range: LineRange, destination: number): void {
+		if (destination >= range.start && destination < range.end) {
+			throw new ExError("E134: Cannot move a range of lines into itself");
+		}
+		const anchor = this.lines[destination] ?? null;
+		const moved = this.lines.splice(range.start, range.end - range.start + 1);
+		const insertAt = anchor ? this.lines.indexOf(anchor) + 1 : 0;
+		this.lines.splice(insertAt, 0, ...moved);
+		this.cursorLine = insertAt + moved.length - 1;
+		this.cursorCol = null;
+	}
+
+	/**
+	 * Copy the range below `destination` (-1 copies it to the top).
+	 */
+	copyLines(range: LineRange, destination: number): void {
+		const copies = this.lines.slice(range.start, range.end + 1).map((line) => ({ text: line.text }));
+		this.lines.splice(destination + 1, 0, ...copies);
+		this.cursorLine = destination + copies.length;
+		this.cursorCol = null;
+	}
+
+	/**
+	 * Take new text for the whole buffer (after :normal edited it) while keeping
+	 * the line objects of unchanged lines at the start and end.
+	 */
+	replaceTexts(texts: string[]): void {
+		let prefix = 0;
+		while (prefix < texts.length && prefix < this.lines.length && this.lines[prefix]!.text === texts[prefix]) {
+			prefix += 1;
+		}
+		let suffix = 0;
+		while (
+			suffix < texts.length - prefix &&
+			suffix < this.lines.length - prefix &&
+			this.lines[this.lines.length - 1 - suffix]!.text === texts[texts.length - 1 - suffix]
+		) {
+			suffix += 1;
+		}
+
+		const oldMiddle = this.lines.slice(prefix, this.lines.length - suffix);
+		const newMiddle = texts.slice(prefix, texts.length - suffix).map((text, i) => {
+			// A line edited in place keeps its identity.
+			const line = oldMiddle.length === texts.length - prefix - suffix ? oldMiddle[i]! : { text };
+			line.text = text;
+			return line;
+		});
+		this.lines.splice(prefix, oldMiddle.length, ...newMiddle);
+	}
+}
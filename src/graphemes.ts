@@ -0,0 +1,173 @@
+/**
+ * Graphemes - user-perceived characters and display columns
+ *
+ * Cursor columns and text offsets stay UTF-16 indexes (what the editor stores),
+ * but steps, counts and character comparisons go by grapheme cluster, so an
+ * emoji, a letter with combining marks or a CJK character moves, matches and is
+ * deleted as one. Display columns (visual block mode) count terminal cells, so a
+ * wide character takes two.
+ */
+
+import { visibleWidth } from "@mariozechner/pi-tui";
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+/** Characters segmented per call; see graphemesBetween. */
+const WINDOW = 256;
+
+export interface Grapheme {
+	segment: string;
+	/** Offset in the whole text. */
+	index: number;
+}
+
+/**
+ * Whether a grapheme always starts at `index`: at a line start, before an ASCII
+ * character (nothing joins onto one, except LF after CR) and between two CJK
+ * characters. Other boundaries need the segmenter.
+ */
+function isSafeBoundary(text: string, index: number): boolean {
+	if (index <= 0 || index >= text.length || text[index - 1] === "\n") {
+		return true;
+	}
+	const code = text.charCodeAt(index);
+	if (code < 0x80) {
+		return !(text[index] === "\n" && text[index - 1] === "\r");
+	}
+	return /[\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}]/u.test(text[index]!) && /[\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}]/u.test(text[index - 1]!);
+}
+
+function safeBoundaryBefore(text: string, index: number): number {
+	let position = Math.max(0, Math.min(index, text.length));
+	while (!isSafeBoundary(text, position)) {
+		position -= 1;
+	}
+	return position;
+}
+
+function safeBoundaryAfter(text: string, index: number): number {
+	let position = Math.max(0, Math.min(index, text.length));
+	while (!isSafeBoundary(text, position)) {
+		position += 1;
+	}
+	return position;
+}
+
+/**
+ * Graphemes of text[start, end), `start` being a grapheme boundary. The text is
+ * segmented a window at a time: V8 gives every segment its own copy of the input,
+ * so segmenting a long line in one go costs time and memory quadratic in its length.
+ */
+export function* graphemesBetween(text: string, start: number, end: number): Generator<Grapheme> {
+	let position = start;
+	while (position < end) {
+		const windowEnd = Math.min(end, safeBoundaryAfter(text, position + WINDOW));
+		for (const { segment, index } of segmenter.segment(text.slice(position, windowEnd))) {
+			yield { segment, index: position + index };
+		}
+		position = windowEnd;
+	}
+}
+
+function containingSegment(text: string, index: number): { start: number; end: number } {
+	const from = safeBoundaryBefore(text, index);
+	for (const { segment, index: start } of graphemesBetween(text, from, safeBoundaryAfter(text, index + 1))) {
+		if (index < start + segment.length) {
+			return { start, end: start + segment.length };
+		}
+	}
+	return { start: index, end: index + 1 };
+}
+
+export function countGraphemes(text: string): number {
+	let count = 0;
+	for (const _ of graphemesBetween(text, 0, text.length)) {
+		count += 1;
+	}
+	return count;
+}
+
+export function isSingleGrapheme(text: string): boolean {
+	return text.length > 0 && countGraphemes(text) === 1;
+}
+
+/**
+ * Start of the grapheme containing `index`.
+ */
+export function graphemeStart(text: string, index: number): number {
+	if (index <= 0 || index >= text.length || isSafeBoundary(text, index)) {
+		return Math.max(0, Math.min(index, text.length));
+	}
+	return containingSegment(text, index).start;
+}
+
+/**
+ * Offset just past the grapheme containing `index`.
+ */
+export function nextGraphemeIndex(text: string, index: number): number {
+	if (index >= text.length) {
+		return text.length;
+	}
+	return containingSegment(text, Math.max(0, index)).end;
+}
+
+/**
+ * Start of the grapheme before `index`.
+ */
+export function previousGraphemeIndex(text: string, index: number): number {
+	if (index <= 0) {
+		return 0;
+	}
+	return containingSegment(text, Math.min(index, text.length) - 1).start;
+}
+
+export function advanceGraphemes(text: string, index: number, count: number): number {
+	let position = index;
+	let steps = 0;
+	for (const { segment, index: start } of graphemesBetween(text, index, text.length)) {
+		if (steps >= count) {
+			break;
+		}
+		position = start + segment.length;
+		steps += 1;
+	}
+	return position;
+}
+
+export function retreatGraphemes(text: string, index: number, count: number): number {
+	let position = index;
+	let steps = 0;
+	while (steps < count && position > 0) {
+		const starts = [...graphemesBetween(text, safeBoundaryBefore(text, position - WINDOW), position)].map(
+			(grapheme) => grapheme.index,
+		);
+		for (let i = starts.length - 1; i >= 0 && steps < count; i--) {
+			position = starts[i]!;
+			steps += 1;
+		}
+	}
+	return position;
+}
+
+export function displayColumn(text: string, index: number): number {
+	return visibleWidth(text.slice(0, index));
+}
+
+/**
+ * Offset of the grapheme at display `column` of a line. A wide character that
+ * straddles the column is included when rounding down (start of a range) and
+ * skipped past when rounding up (end of a range).
+ */
+export function indexAtDisplayColumn(text: string, column: number, roundUp: boolean): number {
+	let width = 0;
+	for (const segment of graphemesBetween(text, 0, text.length)) {
+		if (width >= column) {
+			return segment.index;
+		}
+		width += visibleWidth(segment.segment);
+		if (width > column) {
+			return roundUp ? segment.index + segment.segment.length : segment.index;
+		}
+	}
+	return text.length;
+}
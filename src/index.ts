@@ -2,37 +2,162 @@
  * Modal Editor - vim-like modal editing extension
  *
  * - Escape: insert -> normal mode (in normal mode, aborts agent when no pending command)
- * - Modes: normal, insert, visual
+ * - Modes: normal, insert, visual (v), visual line (V), visual block (Ctrl-V)
+ * - Status: mode, pending keys, register, recording, selection size and line:col/lines on the
+ *   bottom border, dropping the less important parts when narrow
  * - Counts: e.g. 2l, 3w, 2dd
- * - Motions: h j k l, 0, $, w, b/B, e/E, f/F<char>, t/T<char>
- * - Editing: x, d + motion, dd, D, i, I, a, A, o, O, J
- * - Undo/redo: u / U
- * - Clipboard: y/Y copy, p paste (works in visual mode too)
+ * - Motions: h j k l, 0, $, w/W, b/B, e/E, ge/gE (vim word classes, across lines), f/F<char>, t/T<char>
+ * - Operators: d (delete), c (change), y (yank) + any motion; dd/cc/yy linewise
+ * - Text objects: iw aw iW aW, quotes, brackets, it at, ip ap (after operators and in visual mode)
+ * - Editing: x, D, C, s, S, Y, i, I, a, A, o, O, J, r{char} (with count), ~
+ * - Insert mode (:set insertkeys): Ctrl-O runs one normal-mode command, Ctrl-R {reg} inserts a
+ *   register, Ctrl-U deletes the typed text, Ctrl-T / Ctrl-D indent and outdent by shiftwidth. Off by
+ *   default as pi binds Ctrl-O (expand tools) and Ctrl-T (toggle thinking); turned on, insert mode
+ *   takes them from pi, though Ctrl-D in an empty prompt still exits
+ * - Replace mode: R overtypes, Backspace restores the overwritten characters
+ * - Case operators: g~ (toggle), gu (lower), gU (upper) with motions and text objects, g~~/guu/gUU
+ *   for lines; ~, g~, gu, gU on visual selections
+ * - Repeat: . repeats the last change (with a new count, e.g. 3.); a count on i, a, I, A, o or O
+ *   repeats the typed text
+ * - Macros: q{reg} records, q stops, @{reg} plays (with count), @@ replays the last macro; keys are
+ *   stored in key notation (A;<Esc>j), so a pasted macro can be edited and yanked back
+ * - Search: /pattern, ?pattern, n/N, * and # (also as operator motions, e.g. d/foo)
+ * - External editor: Ctrl-X Ctrl-E edits the text in $VISUAL / $EDITOR (at the cursor line in vi, vim,
+ *   nvim, nano, emacs and kak)
+ * - Prompt history: k on the first line / j on the last load older / newer prompts (one undo step
+ *   each); q/ filters them as a pattern is typed, Up/Down for more matches, Enter loads the match
+ * - Marks: m{a-z}, '{mark} / `{mark} (also as motions, e.g. d'a), '' and ``, `. `[ `] '< '>;
+ *   marks follow edits. Ctrl-O / Ctrl-I (Tab) walk the jumplist of searches, mark jumps and :N
+ * - Visual: d/x, y, c/s, r<char>, p; v/V/Ctrl-V switch kinds; block mode adds I, A and $
+ * - Ex commands: : opens a prompt in the bottom border (with history); ranges N,M . $ % '<,'> and
+ *   +N/-N; :s/pat/rep/flags, :g/pat/cmd, :v, :d, :m, :t, :normal, :p, :noh
+ * - Mappings: :map/:noremap/:unmap with n, v/x, o and i variants, <leader> (let mapleader = ","),
+ *   multi-key mappings wait for timeoutlen (set timeoutlen=500); e.g. inoremap jk <Esc> leaves
+ *   insert mode, with the held-back j shown dimmed at the cursor until the timeout inserts it
+ * - Options: :set ic / noic / ic! / tm=500 / ic? / ic& / all; ignorecase, smartcase, startmode,
+ *   maxheight, escapeabort, clipboard (auto, system, osc52, tmux or internal; read without
+ *   blocking), timeout, timeoutlen, number and relativenumber (line-number gutter: absolute,
+ *   relative, or both for hybrid), guicursor (terminal cursor shape per mode, restored on exit),
+ *   insertkeys, shiftwidth
+ * - Config: vimrc in the pi agent directory (~/.pi/agent/vimrc), then the project's .pi/vimrc, run as ex
+ *   commands at session start; a cloned repo may ship the project file, so it can only :set options
+ * - Undo tree: u / U, g- / g+ (chronological), :undolist, :earlier / :later (count or 10s, 2m, 1h, 1d),
+ *   :undo N; undoing and then editing starts a new branch instead of dropping the old one
+ * - Registers: "{reg} before y/d/c/p; "a-"z ("A-"Z append), "0 yank, "1-"9 deletes, "- small delete,
+ *   "_ black hole, "+/"* clipboard
+ * - Paste: p/P after/before the cursor (linewise registers on new lines), with counts;
+ *   gp/gP leave the cursor after the text, ]p/[p match the current line's indent
+ * - Clipboard: "+ / "* and plain yanks; :set clipboard= auto, system (pbcopy, wl-copy, xclip, ...),
+ *   osc52 (terminal, works over SSH), tmux (paste buffer) or internal; reads never block the TUI
+ * - Unicode: motions, finds, edits and selections step by grapheme (emoji, combining marks), and
+ *   visual blocks line up by display width (CJK)
  */
 
-import { execSync } from "node:child_process";
-import { copyToClipboard, CustomEditor, type ExtensionAPI, type Theme } from "@mariozechner/pi-coding-agent";
+import { spawnSync } from "node:child_process";
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { CustomEditor, type ExtensionAPI, getAgentDir, type Theme } from "@mariozechner/pi-coding-agent";
 import { CURSOR_MARKER, matchesKey, truncateToWidth, visibleWidth } from "@mariozechner/pi-tui";
+import {
+	advanceGraphemes,
+	countGraphemes,
+	displayColumn,
+	graphemesBetween,
+	graphemeStart,
+	indexAtDisplayColumn,
+	isSingleGrapheme,
+	nextGraphemeIndex,
+	previousGraphemeIndex,
+	retreatGraphemes,
+} from "./graphemes.js";
+import { ClipboardCache } from "./clipboard.js";
+import { type CursorMode, parseCursorShapes, RESET_CURSOR_SHAPE } from "./cursor-shape.js";
+import { splitKeys } from "./keys.js";
+import {
+	formatKeys,
+	formatRecordedKeys,
+	getMapCommand,
+	KeyMappings,
+	type MapCommand,
+	type MapMode,
+	parseKeyNotation,
+} from "./mappings.js";
+import {
+	isRecordableRegister,
+	isRegisterName,
+	printableText,
+	RegisterStore,
+	type RegisterContent,
+	type RegisterOperation,
+	type RegisterType,
+} from "./registers.js";
+import {
+	type AddressContext,
+	ExBuffer,
+	type ExCommand,
+	ExError,
+	type LineRange,
+	parseAddress,
+	parseExCommand,
+	parseGlobal,
+	parseSubstitute,
+	resolveCommandName,
+} from "./ex-commands.js";
+import { diffText, isMarkName, JumpList, MarkStore } from "./marks.js";
+import { Options } from "./options.js";
+import { compileSearchPattern, findMatches, findNextMatch, type SearchOptions, wordSearchPattern } from "./search.js";
+import { findTextObject, isTextObjectKey, type TextObjectRange } from "./text-objects.js";
+import { UndoTree, type UndoLeaf, type UndoStep } from "./undo-tree.js";
+import { currentWordEnd, wordBackward, wordEndBackward, wordEndForward, wordForward } from "./word-motions.js";
 
 const SEQ = {
 	left: "\x1b[D",
 	right: "\x1b[C",
-	up: "\x1b[A",
-	down: "\x1b[B",
 	lineStart: "\x01", // Ctrl+A
 	lineEnd: "\x05", // Ctrl+E
 	deleteCharForward: "\x1b[3~",
-	deleteWordForward: "\x1bd", // Alt+D
-	deleteWordBackward: "\x17", // Ctrl+W
 	deleteToEnd: "\x0b", // Ctrl+K
-	wordForward: "\x1bf", // Alt+F
-	wordBackward: "\x1bb", // Alt+B
-	newLine: "\n",
 } as const;
 
-type Mode = "normal" | "insert" | "visual";
-type PendingOperator = "d" | null;
+type Mode = "normal" | "insert" | "replace" | "visual" | "visual-line" | "visual-block";
+type CaseOperator = "g~" | "gu" | "gU";
+type Operator = "d" | "c" | "y" | CaseOperator;
+type PendingOperator = Operator | null;
 type PendingFind = "f" | "F" | "t" | "T" | null;
+type PendingTextObject = "i" | "a" | null;
+type PendingMacro = "q" | "@" | null;
+type PendingMark = "m" | "'" | "`" | null;
+/** \x18 is Ctrl-X (Ctrl-X Ctrl-E edits the text in $VISUAL / $EDITOR). */
+type PendingPrefix = "g" | "]" | "[" | "\x18" | null;
+type MotionKind = "exclusive" | "inclusive" | "linewise";
+
+const MOTION_KEYS = new Set(["h", "j", "k", "l", "0", "$", "w", "W", "b", "B", "e", "E", "ge", "gE", "n", "N", "*", "#"]);
+
+const MODE_LABELS: Record<Mode, string> = {
+	normal: "NORMAL",
+	insert: "INSERT",
+	replace: "REPLACE",
+	visual: "VISUAL",
+	"visual-line": "VISUAL LINE",
+	"visual-block": "VISUAL BLOCK",
+};
+
+const SELECTION_STYLE = "7";
+const SEARCH_MATCH_STYLE = "4";
+const PENDING_INSERT_STYLE = "2";
+const MAX_COMMAND_HISTORY = 100;
+
+const MAX_MACRO_DEPTH = 100;
+const MAX_MAPPING_DEPTH = 1000;
+const DEFAULT_MAP_LEADER = "\\";
+const CONFIG_FILE_NAME = "vimrc";
+const PROJECT_CONFIG_DIR = ".pi";
+
+const TIME_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/** External editors known to take +N to open the file at line N; others would open a file named "+N". */
+const LINE_ARGUMENT_EDITORS = new Set(["vi", "vim", "nvim", "nano", "emacs", "kak"]);
 
 interface Pos {
 	line: number;
@@ -44,12 +169,127 @@ interface Snapshot {
 	cursor: Pos;
 }
 
+interface RecordedKey {
+	key: string;
+	isCount: boolean;
+}
+
+interface ChangeRecording {
+	keys: RecordedKey[];
+	changeTick: number;
+	visual: boolean;
+}
+
+interface RepeatableChange {
+	keys: string[];
+	count: number;
+}
+
+interface PasteOptions {
+	before: boolean;
+	count: number;
+	cursorAfter: boolean;
+	adjustIndent: boolean;
+}
+
 interface TextChunk {
 	text: string;
 	startIndex: number;
 	endIndex: number;
 }
 
+interface BlockBounds {
+	top: number;
+	bottom: number;
+	/** Display columns (terminal cells), so wide characters line up across lines. */
+	left: number;
+	/** Inclusive. */
+	right: number;
+	toLineEnd: boolean;
+}
+
+interface BlockInsert {
+	top: number;
+	bottom: number;
+	/** Display column the text goes in at. */
+	col: number;
+	append: boolean;
+	toLineEnd: boolean;
+	lineCount: number;
+	before: string;
+}
+
+interface InsertRepeat {
+	/** Copies of the inserted text wanted in all. */
+	count: number;
+	/** o and O put each copy on a line of its own. */
+	newLine: boolean;
+	before: string;
+	start: number;
+}
+
+interface HighlightRange {
+	start: number;
+	end: number;
+	style: string;
+}
+
+interface CommandLine {
+	/** q/ searches pi's prompt history. */
+	prefix: "/" | "?" | ":" | "q/";
+	text: string;
+	/** Cursor position within text. */
+	cursor: number;
+	origin: Pos;
+	count: number;
+	historyIndex: number;
+	/** Editor text before q/ started previewing prompts in its place. */
+	draft?: string;
+}
+
+interface LastSubstitute {
+	pattern: string;
+	replacement: string;
+}
+
+interface TypeaheadKey {
+	key: string;
+	/** Whether the key may still be expanded by a mapping. */
+	remap: boolean;
+}
+
+interface LastSearch {
+	pattern: string;
+	backward: boolean;
+}
+
+/**
+ * The pi-tui Editor's private state. Motions set the cursor directly: replaying
+ * arrow keys costs a key event and a re-layout per step.
+ */
+interface EditorInternals {
+	state: { lines: string[]; cursorLine: number; cursorCol: number };
+	/** Wrap width of the last render, used by the base editor's up/down moves. */
+	lastWidth: number;
+	/** First layout line shown by the base editor's render. */
+	scrollOffset: number;
+	/** Submitted prompts, most recent first. */
+	history: string[];
+	lastAction: string | null;
+	/** Also clears the column kept by the base editor's own up/down moves. */
+	setCursorCol(col: number): void;
+}
+
+/**
+ * Display column j/k aim for, kept while the cursor stays where the last vertical
+ * move put it (so passing a short line does not lose the column).
+ */
+interface VerticalColumn {
+	line: number;
+	col: number;
+	column: number;
+}
+
 interface LayoutSegment {
 	logicalLine: number;
 	text: string;
@@ -59,10 +299,15 @@ interface LayoutSegment {
 	cursorPos?: number;
 }
 
-const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
-
 let activeTheme: Theme | undefined;
 
+/**
+ * A key that types one character (possibly several code points, e.g. an emoji).
+ */
+function isCharKey(data: string): boolean {
+	return data.charCodeAt(0) >= 32 && data !== "\x7f" && isSingleGrapheme(data);
+}
+
 function isWhitespaceChar(grapheme: string): boolean {
 	return /^\s$/u.test(grapheme);
 }
@@ -77,7 +322,7 @@ function wordWrapLine(line: string, maxWidth: number): TextChunk[] {
 	}
 
 	const chunks: TextChunk[] = [];
-	const segments = [...segmenter.segment(line)];
+	const segments = [...graphemesBetween(line, 0, line.length)];
 
 	let currentWidth = 0;
 	let chunkStart = 0;
@@ -117,31 +362,398 @@ function wordWrapLine(line: string, maxWidth: number): TextChunk[] {
 	return chunks;
 }
 
+/**
+ * Re-indent pasted lines so the least indented one lines up with the given indent (]p).
+ */
+function reindentLines(lines: string[], indent: string): string[] {
+	const indents = lines.filter((line) => /\S/.test(line)).map((line) => line.match(/^\s*/)?.[0].length ?? 0);
+	const common = indents.length > 0 ? Math.min(...indents) : 0;
+	return lines.map((line) => (/\S/.test(line) ? indent + line.slice(common) : line));
+}
+
+function isCaseOperator(operator: Operator): operator is CaseOperator {
+	return operator.startsWith("g");
+}
+
+/**
+ * Apply a case operator (g~ toggles, gu lowers, gU uppers). Characters whose
+ * other case has a different length (e.g. ß) are left alone so columns stay put.
+ */
+function changeCase(text: string, operator: CaseOperator): string {
+	return [...text]
+		.map((char) => {
+			const upper = char.toUpperCase();
+			const lower = char.toLowerCase();
+			const changed = operator === "gU" ? upper : operator === "gu" ? lower : char === upper ? lower : upper;
+			return changed.length === char.length ? changed : char;
+		})
+		.join("");
+}
+
+/**
+ * :undolist output - one row per branch tip, like vim's "number changes when" table.
+ */
+function formatUndoList(leaves: UndoLeaf[], now: number): string[] {
+	if (leaves.length === 0) {
+		return ["Nothing to undo"];
+	}
+	const rows = leaves.map((leaf) => {
+		const seconds = Math.round((now - leaf.time) / 1000);
+		const when = seconds < 100 ? `${seconds} seconds ago` : new Date(leaf.time).toTimeString().slice(0, 8);
+		return `${String(leaf.seq).padStart(6)} ${String(leaf.changes).padStart(7)}  ${when}`;
+	});
+	return ["number changes  when", ...rows];
+}
+
 class ModalEditor extends CustomEditor {
 	private mode: Mode = "insert";
 	private pendingCount = "";
 	private pendingOperator: PendingOperator = null;
 	private pendingOperatorCount = 1;
 	private pendingFind: PendingFind = null;
+	private pendingMark: PendingMark = null;
+	private pendingTextObject: PendingTextObject = null;
+	private pendingPrefix: PendingPrefix = null;
 	private visualAnchor: Pos | null = null;
+	private visualBlockToLineEnd = false;
+	private blockInsert: BlockInsert | null = null;
+	private pendingReplace = false;
+	/** Ctrl-R in insert mode, waiting for the register name. */
+	private pendingInsertRegister = false;
+	/** Running one normal-mode command for insert-mode Ctrl-O. */
+	private insertCommand = false;
+	/** Where the current insert began; Ctrl-U deletes back to it. */
+	private insertStart: Pos | null = null;
+	/** Count given to i, a, I, A, o or O; Escape repeats the inserted text to make it up. */
+	private insertRepeat: InsertRepeat | null = null;
+	/** Characters overwritten in replace mode (null where R appended), restored by Backspace. */
+	private replacedChars: (string | null)[] = [];
 	private visualScrollOffset = 0;
-	private clipboardFallback = "";
-	private undoHistory: Snapshot[] = [];
-	private redoHistory: Snapshot[] = [];
+	/** DECSCUSR sequence last written; null while the terminal shows its own shape. */
+	private cursorShape: string | null = null;
+	private pendingRegister = false;
+	private activeRegister: string | null = null;
+	private options = new Options();
+	private clipboard = new ClipboardCache(
+		this.tui,
+		() => this.options.get("clipboard"),
+		(message) => {
+			this.messages = [message];
+			this.tui.requestRender();
+		},
+	);
+	/** Clipboard read started by selecting "+ or "*; typed keys wait in the typeahead until it ends. */
+	private clipboardRead: Promise<void> | null = null;
+	private registers = new RegisterStore({
+		read: () => this.clipboard.get(),
+		write: (text) => this.clipboard.set(text),
+	});
+	private undoTree = new UndoTree<Snapshot>();
 	private trackingDepth = 0;
 	private trackingStartSnapshot: Snapshot | null = null;
+	private changeTick = 0;
+	private changeRecording: ChangeRecording | null = null;
+	private lastChange: RepeatableChange | null = null;
+	private repeatingChange = false;
+	private pendingMacro: PendingMacro = null;
+	private macroRegister: string | null = null;
+	private macroKeys: string[] = [];
+	private lastMacroRegister: string | null = null;
+	private macroDepth = 0;
+	private commandFailed = false;
+	private commandLine: CommandLine | null = null;
+	private searchHistory: string[] = [];
+	private exHistory: string[] = [];
+	private lastSubstitute: LastSubstitute | null = null;
+	private marks = new MarkStore();
+	private jumps = new JumpList();
+	private mappings = new KeyMappings();
+	private mapLeader = DEFAULT_MAP_LEADER;
+	private typeahead: TypeaheadKey[] = [];
+	private mappingTimer: ReturnType<typeof setTimeout> | null = null;
+	private messages: string[] = [];
+	private lastSearch: LastSearch | null = null;
+	private searchHighlight = false;
+	private verticalColumn: VerticalColumn | null = null;
+	/** Prompt loaded by k / j at the buffer edges (index into history) and the text it replaced. */
+	private promptHistory: { index: number; draft: string } | null = null;
+	/** Bumped on every change to the text: setText, insertTextAtCursor and keys handed to the base editor. */
+	private textVersion = 0;
+	/** Line start offsets of the text at `version`; motions ask repeatedly for the same text. */
+	private lineOffsetCache: { version: number; offsets: number[] } | null = null;
+
+	setText(text: string): void {
+		this.insertStart = null;
+		this.insertRepeat = null;
+		this.textVersion += 1;
+		super.setText(text);
+	}
+
+	insertTextAtCursor(text: string): void {
+		this.textVersion += 1;
+		super.insertTextAtCursor(text);
+	}
 
 	handleInput(data: string): void {
+		this.messages = [];
+		if (this.macroRegister !== null && this.macroDepth === 0 && !this.repeatingChange) {
+			this.macroKeys.push(data);
+		}
+
+		if (this.repeatingChange) {
+			this.dispatchInput(data);
+			return;
+		}
+
+		this.clearMappingTimer();
+		this.typeahead.push({ key: data, remap: true });
+		this.resolveTypeahead(false);
+	}
+
+	/**
+	 * Run each key of `keys` as if typed, e.g. for macros and :normal. Keys get their
+	 * own typeahead, so they run to completion before anything typed earlier.
+	 */
+	private runKeys(keys: string[], remap: boolean): void {
+		const outer = this.typeahead;
+		this.typeahead = [];
+		try {
+			for (const key of keys) {
+				this.typeahead.push({ key, remap });
+				this.resolveTypeahead(false);
+				if (this.commandFailed) {
+					this.typeahead = [];
+					return;
+				}
+			}
+			this.resolveTypeahead(true);
+		} finally {
+			this.typeahead = outer;
+		}
+	}
+
+	/**
+	 * Expand mappings at the front of the typeahead and process the resulting keys.
+	 * Keys that could still grow into a longer mapping wait for the next key, or for
+	 * the mapping timeout; `force` resolves them as they stand.
+	 */
+	private resolveTypeahead(force: boolean): void {
+		let expansions = 0;
+		while (this.typeahead.length > 0 && !this.clipboardRead) {
+			const mode = this.getMapMode();
+			const first = this.typeahead[0]!;
+			if (!mode || !first.remap) {
+				this.typeahead.shift();
+				this.processInput(first.key);
+				continue;
+			}
+
+			const remappable: string[] = [];
+			for (const entry of this.typeahead) {
+				if (!entry.remap) break;
+				remappable.push(entry.key);
+			}
+
+			const whole = this.mappings.lookup(mode, remappable);
+			if (whole.partial && !force) {
+				this.startMappingTimer();
+				return;
+			}
+
+			let length = remappable.length;
+			let mapping = whole.mapping;
+			while (!mapping && length > 1) {
+				length -= 1;
+				mapping = this.mappings.lookup(mode, remappable.slice(0, length)).mapping;
+			}
+			if (!mapping) {
+				this.typeahead.shift();
+				this.processInput(first.key);
+				continue;
+			}
+
+			expansions += 1;
+			if (expansions > MAX_MAPPING_DEPTH) {
+				this.typeahead = [];
+				this.messages = ["E223: recursive mapping"];
+				this.failCommand();
+				return;
+			}
+			// A right-hand side starting with its own left-hand side does not expand again.
+			const startsWithLhs = mapping.lhs.every((key, index) => mapping.rhs[index] === key);
+			const expanded = mapping.rhs.map((key, index) => ({
+				key,
+				remap: mapping.recursive && !(startsWithLhs && index === 0),
+			}));
+			this.typeahead.splice(0, length, ...expanded);
+		}
+	}
+
+	private startMappingTimer(): void {
+		if (!this.options.get("timeout") || this.macroDepth > 0) {
+			return;
+		}
+		this.mappingTimer = setTimeout(() => {
+			this.mappingTimer = null;
+			this.resolveTypeahead(true);
+			this.tui.requestRender();
+		}, this.options.get("timeoutlen"));
+	}
+
+	private clearMappingTimer(): void {
+		if (this.mappingTimer) {
+			clearTimeout(this.mappingTimer);
+			this.mappingTimer = null;
+		}
+	}
+
+	/**
+	 * Mapping mode for the next key, or null when the key is an argument (a find
+	 * character, register name, ...) or typed into the command line.
+	 */
+	private getMapMode(): MapMode | null {
+		if (
+			this.commandLine ||
+			this.pendingFind ||
+			this.pendingTextObject ||
+			this.pendingReplace ||
+			this.pendingRegister ||
+			this.pendingMacro ||
+			this.pendingMark ||
+			this.pendingPrefix
+		) {
+			return null;
+		}
+		if (this.isInsertMode()) {
+			return "i";
+		}
+		if (this.isVisualMode()) {
+			return "v";
+		}
+		return this.pendingOperator ? "o" : "n";
+	}
+
+	/**
+	 * Printable keys waiting in insert mode for a possible mapping (e.g. the j of
+	 * an imap jk <Esc>); they are not part of the text until the mapping resolves.
+	 */
+	private getPendingInsertText(): string {
+		if (!this.isInsertMode() || this.typeahead.length === 0) {
+			return "";
+		}
+		const keys = this.typeahead.map((entry) => entry.key);
+		return keys.every((key) => key.length > 0 && key.charCodeAt(0) >= 32 && key !== "\x7f") ? keys.join("") : "";
+	}
+
+	private processInput(data: string): void {
+		if (this.insertCommand) {
+			this.processInsertCommandKey(data);
+			return;
+		}
+		if (this.mode === "insert" && this.options.get("insertkeys") && !this.pendingInsertRegister && matchesKey(data, "ctrl+o")) {
+			// End the insert as Escape would, so "." repeats what was typed so far.
+			this.processInput("\x1b");
+			this.insertCommand = true;
+			return;
+		}
+
+		if (this.isRepeatKey(data)) {
+			this.changeRecording = null;
+			this.dispatchInput(data);
+			return;
+		}
+
+		if (this.isInsertMode() && (!this.changeRecording || matchesKey(data, "enter"))) {
+			// Submitting ends the prompt, so an insert session cut short by Enter is never repeated.
+			this.changeRecording = null;
+			this.dispatchInput(data);
+			return;
+		}
+
+		const recording = this.changeRecording ?? { keys: [], changeTick: this.changeTick, visual: false };
+		this.changeRecording = recording;
+		const countLength = this.pendingCount.length;
+		this.dispatchInput(data);
+		if (this.changeRecording !== recording) {
+			// A macro played by this key recorded its own changes.
+			return;
+		}
+		recording.keys.push({ key: data, isCount: this.pendingCount.length > countLength });
+		recording.visual ||= this.isVisualMode();
+		this.finishChangeRecording(recording);
+	}
+
+	/**
+	 * A key of the normal-mode command run by insert-mode Ctrl-O. Insert mode
+	 * resumes once the command is complete (a visual selection first has to end);
+	 * Escape cancels. Keys the command runs itself, like a macro, see plain normal mode.
+	 */
+	private processInsertCommandKey(data: string): void {
+		this.insertCommand = false;
+		if (matchesKey(data, "escape") && this.mode === "normal" && !this.hasPendingCommand()) {
+			this.resumeInsert();
+			return;
+		}
+
+		this.processInput(data);
+		if (this.mode === "normal" && !this.hasPendingCommand()) {
+			this.resumeInsert();
+		} else if (!this.isInsertMode()) {
+			this.insertCommand = true;
+		}
+	}
+
+	private resumeInsert(): void {
+		this.mode = "insert";
+		this.insertStart = this.getCursor();
+	}
+
+	private dispatchInput(data: string): void {
+		const wasInsert = this.isInsertMode();
+		this.dispatchKey(data);
+		if (!wasInsert && this.isInsertMode()) {
+			this.insertStart = this.getCursor();
+		}
+	}
+
+	private dispatchKey(data: string): void {
+		if (this.pendingInsertRegister) {
+			// Ctrl-R Ctrl-R, Ctrl-R Ctrl-O and Ctrl-R Ctrl-P insert literally too, as Ctrl-R always does here.
+			if (matchesKey(data, "ctrl+r") || matchesKey(data, "ctrl+o") || matchesKey(data, "ctrl+p")) {
+				return;
+			}
+			this.pendingInsertRegister = false;
+			if (data.length === 1 && isRegisterName(data)) {
+				if (data === "+" || data === "*") {
+					this.readClipboard(() => this.insertRegister(data));
+				} else {
+					this.insertRegister(data);
+				}
+			}
+			return;
+		}
+
+		if (this.commandLine) {
+			this.handleCommandLineInput(data);
+			return;
+		}
+
 		if (matchesKey(data, "escape")) {
-			if (this.mode === "insert") {
+			if (this.isInsertMode()) {
 				this.mode = "normal";
+				this.replacedChars = [];
 				this.resetPending();
+				if (this.blockInsert) {
+					this.finishBlockInsert();
+				}
+				if (this.insertRepeat) {
+					this.finishInsertRepeat();
+				}
 				return;
 			}
 
-			if (this.mode === "visual") {
-				this.mode = "normal";
-				this.visualAnchor = null;
+			if (this.isVisualMode()) {
+				this.exitVisualMode();
 				this.resetPending();
 				return;
 			}
@@ -151,19 +763,45 @@ class ModalEditor extends CustomEditor {
 				return;
 			}
 
-			super.handleInput(data);
+			if (this.macroDepth > 0) {
+				// Escape inside a macro stops playback instead of aborting the agent.
+				this.failCommand();
+				return;
+			}
+
+			if (this.options.get("escapeabort")) {
+				this.send(data);
+			}
 			return;
 		}
 
 		if (this.mode === "insert") {
-			this.withTrackedEdit(() => {
-				super.handleInput(data);
-			});
+			if (!this.options.get("insertkeys") || !this.handleInsertCommand(data)) {
+				if (isCharKey(data)) {
+					this.insertStart ??= this.getCursor();
+				} else if (!matchesKey(data, "backspace")) {
+					// Like vim's arrow keys, moving around (or a new line, or submitting) starts a new insert.
+					this.insertStart = null;
+				}
+				this.withTrackedEdit(() => {
+					this.send(data);
+				});
+			}
+			return;
+		}
+
+		if (this.mode === "replace") {
+			this.handleReplaceInput(data);
+			return;
+		}
+
+		if (this.pendingMark) {
+			this.applyMark(data);
 			return;
 		}
 
 		if (this.pendingFind) {
-			if (data.length === 1 && data.charCodeAt(0) >= 32) {
+			if (isCharKey(data)) {
 				this.applyFind(data);
 			} else {
 				this.resetPending();
@@ -171,8 +809,54 @@ class ModalEditor extends CustomEditor {
 			return;
 		}
 
-		if (this.pendingOperator === "d" && data === "0" && this.pendingCount.length === 0) {
-			this.handleDeleteOperator(data);
+		if (this.pendingMacro) {
+			this.applyMacroCommand(data);
+			return;
+		}
+
+		if (this.pendingTextObject) {
+			this.applyTextObject(data);
+			return;
+		}
+
+		if (this.pendingPrefix) {
+			this.applyPrefixCommand(data);
+			return;
+		}
+
+		if (this.pendingReplace) {
+			this.pendingReplace = false;
+			const isChar = isCharKey(data);
+			if (isChar && this.isVisualMode()) {
+				this.replaceVisualSelection(data);
+			} else if ((isChar || matchesKey(data, "enter")) && !this.isVisualMode()) {
+				this.replaceCharacters(data, this.consumeCount());
+			} else {
+				this.resetPending();
+			}
+			return;
+		}
+
+		if (this.pendingRegister) {
+			this.pendingRegister = false;
+			if (data.length === 1 && isRegisterName(data)) {
+				this.activeRegister = data;
+				if (data === "+" || data === "*") {
+					this.readClipboard();
+				}
+			} else {
+				this.resetPending();
+			}
+			return;
+		}
+
+		if (data === '"' && !this.pendingOperator) {
+			this.pendingRegister = true;
+			return;
+		}
+
+		if (this.pendingOperator && data === "0" && this.pendingCount.length === 0) {
+			this.handleOperatorInput(data);
 			return;
 		}
 
@@ -186,12 +870,12 @@ class ModalEditor extends CustomEditor {
 			return;
 		}
 
-		if (this.pendingOperator === "d") {
-			this.handleDeleteOperator(data);
+		if (this.pendingOperator) {
+			this.handleOperatorInput(data);
 			return;
 		}
 
-		if (this.mode === "visual") {
+		if (this.isVisualMode()) {
 			this.handleVisualInput(data);
 			return;
 		}
@@ -199,7 +883,105 @@ class ModalEditor extends CustomEditor {
 		this.handleNormalInput(data);
 	}
 
+	/**
+	 * Vim's insert-mode control keys. Returns false for other keys, and for Ctrl-D
+	 * in an empty prompt, which pi uses to exit.
+	 */
+	private handleInsertCommand(data: string): boolean {
+		if (matchesKey(data, "ctrl+r")) {
+			this.pendingInsertRegister = true;
+			return true;
+		}
+		if (matchesKey(data, "ctrl+u")) {
+			this.deleteInsertedText();
+			return true;
+		}
+		if (matchesKey(data, "ctrl+t") || (matchesKey(data, "ctrl+d") && this.getText() !== "")) {
+			this.shiftCurrentLine(matchesKey(data, "ctrl+t") ? 1 : -1);
+			return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Ctrl-R {reg}: insert a register's text as it is, without indenting or
+	 * expanding it; linewise text ends with a line break.
+	 */
+	private insertRegister(name: string): void {
+		const content = this.registers.read(name);
+		if (!content || content.text.length === 0) {
+			return;
+		}
+		const text = printableText(content.type === "linewise" ? `${content.text}\n` : content.text);
+		const insertStart = this.insertStart ?? this.getCursor();
+		this.withTrackedEdit(() => {
+			this.pasteCharacters(text, { before: true, count: 1, cursorAfter: true, adjustIndent: false });
+		});
+		this.insertStart = insertStart;
+	}
+
+	/**
+	 * Ctrl-U: delete the text typed since the insert began on this line, or
+	 * when there is none, back to the indent and then to the line start.
+	 */
+	private deleteInsertedText(): void {
+		const cursor = this.getCursor();
+		const lines = this.getLines();
+		const lineText = lines[cursor.line] ?? "";
+		const indent = lineText.match(/^\s*/)![0].length;
+		const insertStart = this.insertStart;
+		let start = cursor.col > indent ? indent : 0;
+		if (insertStart && insertStart.line === cursor.line && insertStart.col < cursor.col) {
+			start = insertStart.col;
+		}
+		if (start === cursor.col) {
+			return;
+		}
+
+		lines[cursor.line] = lineText.slice(0, start) + lineText.slice(cursor.col);
+		this.withTrackedEdit(() => {
+			this.setTextAndMoveCursor(lines.join("\n"), { line: cursor.line, col: start });
+		});
+		this.insertStart = { line: cursor.line, col: start };
+	}
+
+	/**
+	 * Ctrl-T / Ctrl-D: indent or outdent the line to the next multiple of
+	 * 'shiftwidth', with spaces (a tab counts as 'shiftwidth' columns). The cursor
+	 * stays on the same character.
+	 */
+	private shiftCurrentLine(direction: 1 | -1): void {
+		const cursor = this.getCursor();
+		const lines = this.getLines();
+		const lineText = lines[cursor.line] ?? "";
+		const shiftWidth = this.options.get("shiftwidth");
+		const indent = lineText.match(/^\s*/)![0];
+		const width = [...indent].reduce((total, char) => total + (char === "\t" ? shiftWidth : 1), 0);
+		const newWidth =
+			direction > 0
+				? (Math.floor(width / shiftWidth) + 1) * shiftWidth
+				: Math.max(0, (Math.ceil(width / shiftWidth) - 1) * shiftWidth);
+		const newIndent = " ".repeat(newWidth);
+		if (newIndent === indent) {
+			return;
+		}
+
+		lines[cursor.line] = newIndent + lineText.slice(indent.length);
+		const shift = newIndent.length - indent.length;
+		const col = cursor.col >= indent.length ? cursor.col + shift : Math.min(cursor.col, newIndent.length);
+		const insertStart = this.insertStart;
+		this.withTrackedEdit(() => {
+			this.setTextAndMoveCursor(lines.join("\n"), { line: cursor.line, col });
+		});
+		this.insertStart =
+			insertStart?.line === cursor.line ? { line: cursor.line, col: Math.max(0, insertStart.col + shift) } : insertStart;
+	}
+
 	private handleNormalInput(data: string): void {
+		if (matchesKey(data, "ctrl+o") || matchesKey(data, "tab")) {
+			this.jumpThroughList(data !== "\t", this.consumeCount());
+			return;
+		}
 		if (matchesKey(data, "u")) {
 			this.undo();
 			return;
@@ -208,49 +990,33 @@ class ModalEditor extends CustomEditor {
 			this.redo();
 			return;
 		}
-		if (matchesKey(data, "y") || matchesKey(data, "shift+y")) {
-			this.copyCurrentLine();
-			this.resetPending();
+		if (matchesKey(data, "shift+y")) {
+			this.runOperatorMotion("y", "y", this.consumeCount());
+			return;
+		}
+		if (matchesKey(data, "p") || matchesKey(data, "shift+p")) {
+			this.pasteRegister({ before: data === "P", count: this.consumeCount(), cursorAfter: false, adjustIndent: false });
 			return;
 		}
-		if (matchesKey(data, "p")) {
-			this.pasteAtCursor();
+		if (matchesKey(data, "ctrl+v")) {
+			this.enterVisualMode("visual-block");
 			return;
 		}
-		if (matchesKey(data, "shift+e")) {
-			this.send(SEQ.wordForward, this.consumeCount());
+
+		const cursorLine = this.getCursor().line;
+		if ((data === "k" && cursorLine === 0) || (data === "j" && cursorLine === this.getLines().length - 1)) {
+			this.walkPromptHistory(data === "k" ? this.consumeCount() : -this.consumeCount());
+			return;
+		}
+
+		const motionKey = matchesKey(data, "shift+e") ? "E" : data;
+		if (MOTION_KEYS.has(motionKey)) {
+			this.moveByMotion(motionKey, this.consumeCount());
+			this.resetPending();
 			return;
 		}
 
 		switch (data) {
-			case "h":
-				this.send(SEQ.left, this.consumeCount());
-				return;
-			case "j":
-				this.send(SEQ.down, this.consumeCount());
-				return;
-			case "k":
-				this.send(SEQ.up, this.consumeCount());
-				return;
-			case "l":
-				this.send(SEQ.right, this.consumeCount());
-				return;
-			case "$":
-				this.send(SEQ.lineEnd);
-				this.resetPending();
-				return;
-			case "w":
-				this.send(SEQ.wordForward, this.consumeCount());
-				return;
-			case "b":
-				this.send(SEQ.wordBackward, this.consumeCount());
-				return;
-			case "B":
-				this.moveBigWordBackward(this.consumeCount());
-				return;
-			case "e":
-				this.send(SEQ.wordForward, this.consumeCount());
-				return;
 			case "f":
 				this.pendingFind = "f";
 				return;
@@ -264,36 +1030,61 @@ class ModalEditor extends CustomEditor {
 				this.pendingFind = "T";
 				return;
 			case "x":
-				this.withTrackedEdit(() => {
-					this.send(SEQ.deleteCharForward, this.consumeCount());
-				});
+				this.runOperatorMotion("d", "l", this.consumeCount());
+				return;
+			case "r":
+				this.pendingReplace = true;
+				return;
+			case "R":
+				this.mode = "replace";
+				this.replacedChars = [];
+				this.resetPending();
+				return;
+			case "~":
+				this.toggleCaseAtCursor(this.consumeCount());
 				return;
 			case "d":
-				this.pendingOperator = "d";
+			case "c":
+			case "y":
+				this.pendingOperator = data;
 				this.pendingOperatorCount = this.consumeCount();
 				return;
 			case "D":
-				this.deleteToLineEnd(this.consumeCount());
+				this.runOperatorMotion("d", "$", this.consumeCount());
 				return;
-			case "v":
-				this.mode = "visual";
-				this.visualAnchor = this.getCursor();
-				this.resetPending();
+			case "C":
+				this.runOperatorMotion("c", "$", this.consumeCount());
+				return;
+			case "s":
+				this.runOperatorMotion("c", "l", this.consumeCount());
+				return;
+			case "S":
+				this.runOperatorMotion("c", "c", this.consumeCount());
+				return;
+			case "v":
+				this.enterVisualMode("visual");
+				return;
+			case "V":
+				this.enterVisualMode("visual-line");
+				return;
+			case "g":
+			case "]":
+			case "[":
+			case "\x18":
+				this.pendingPrefix = data;
 				return;
 			case "i":
-				this.mode = "insert";
-				this.resetPending();
+				this.startInsert(this.consumeCount());
 				return;
 			case "I":
-				this.enterInsertAtFirstNonBlank();
+				this.enterInsertAtFirstNonBlank(this.consumeCount());
 				return;
 			case "a":
 				this.send(SEQ.right);
-				this.mode = "insert";
-				this.resetPending();
+				this.startInsert(this.consumeCount());
 				return;
 			case "A":
-				this.enterInsertAtLineEnd();
+				this.enterInsertAtLineEnd(this.consumeCount());
 				return;
 			case "o":
 				this.openLineBelow(this.consumeCount());
@@ -304,13 +1095,40 @@ class ModalEditor extends CustomEditor {
 			case "J":
 				this.joinWithNextLine(this.consumeCount());
 				return;
+			case "m":
+			case "'":
+			case "`":
+				this.pendingMark = data;
+				return;
+			case ".":
+				this.repeatLastChange(this.pendingCount.length > 0 ? this.consumeCount() : 0);
+				return;
+			case "q":
+				if (this.macroRegister !== null) {
+					this.stopMacroRecording();
+					return;
+				}
+				this.pendingMacro = "q";
+				return;
+			case "@":
+				this.pendingMacro = "@";
+				return;
+			case ":": {
+				const count = this.consumeCount(0);
+				this.openCommandLine(":", 1, count > 1 ? `.,.+${count - 1}` : "");
+				return;
+			}
+			case "/":
+			case "?":
+				this.openCommandLine(data, this.consumeCount());
+				return;
 			default:
-				if (data.length === 1 && data.charCodeAt(0) >= 32) {
+				if (isCharKey(data)) {
 					this.resetPending();
 					return;
 				}
 				this.resetPending();
-				super.handleInput(data);
+				this.send(data);
 				return;
 		}
 	}
@@ -325,30 +1143,71 @@ class ModalEditor extends CustomEditor {
 			return;
 		}
 		if (matchesKey(data, "y")) {
-			this.copyVisualSelection(false);
+			this.applyVisualOperator("y");
 			return;
 		}
 		if (matchesKey(data, "shift+y")) {
-			this.copyVisualSelection(true);
+			this.applyVisualOperator("y", true);
+			return;
+		}
+		if (matchesKey(data, "p") || matchesKey(data, "shift+p")) {
+			// Like vim, P leaves the replaced text out of the registers.
+			this.pasteOverVisualSelection(data === "P");
 			return;
 		}
-		if (matchesKey(data, "p")) {
-			this.pasteOverVisualSelection();
+		if (matchesKey(data, "ctrl+v")) {
+			this.switchVisualMode("visual-block");
 			return;
 		}
-		if (matchesKey(data, "shift+e")) {
-			this.send(SEQ.wordForward, this.consumeCount());
+
+		if (this.mode === "visual-block") {
+			if (data === "$") {
+				this.moveByMotion("$", this.consumeCount());
+				this.visualBlockToLineEnd = true;
+				this.resetPending();
+				return;
+			}
+			if (data === "I" || data === "A") {
+				this.startBlockInsert(data === "A");
+				return;
+			}
+		}
+
+		const motionKey = matchesKey(data, "shift+e") ? "E" : data;
+		if (MOTION_KEYS.has(motionKey)) {
+			this.moveByMotion(motionKey, this.consumeCount());
+			this.visualBlockToLineEnd = false;
+			this.resetPending();
 			return;
 		}
 
 		switch (data) {
 			case "v":
-				this.mode = "normal";
-				this.visualAnchor = null;
-				this.resetPending();
+				this.switchVisualMode("visual");
+				return;
+			case "V":
+				this.switchVisualMode("visual-line");
 				return;
 			case "d":
-				this.deleteVisualSelection();
+			case "x":
+				this.applyVisualOperator("d");
+				return;
+			case "c":
+			case "s":
+				this.applyVisualOperator("c");
+				return;
+			case "r":
+				this.pendingReplace = true;
+				return;
+			case "~":
+				this.applyVisualOperator("g~");
+				return;
+			case "'":
+			case "`":
+				this.pendingMark = data;
+				return;
+			case "g":
+				this.pendingPrefix = "g";
 				return;
 			case "o": {
 				const current = this.getCursor();
@@ -359,33 +1218,18 @@ class ModalEditor extends CustomEditor {
 				this.resetPending();
 				return;
 			}
-			case "h":
-				this.send(SEQ.left, this.consumeCount());
-				return;
-			case "j":
-				this.send(SEQ.down, this.consumeCount());
-				return;
-			case "k":
-				this.send(SEQ.up, this.consumeCount());
+			case "i":
+			case "a":
+				this.pendingTextObject = data;
 				return;
-			case "l":
-				this.send(SEQ.right, this.consumeCount());
+			case "/":
+			case "?":
+				this.openCommandLine(data, this.consumeCount());
 				return;
-			case "$":
-				this.send(SEQ.lineEnd);
+			case ":":
+				this.exitVisualMode();
 				this.resetPending();
-				return;
-			case "w":
-				this.send(SEQ.wordForward, this.consumeCount());
-				return;
-			case "b":
-				this.send(SEQ.wordBackward, this.consumeCount());
-				return;
-			case "B":
-				this.moveBigWordBackward(this.consumeCount());
-				return;
-			case "e":
-				this.send(SEQ.wordForward, this.consumeCount());
+				this.openCommandLine(":", 1, "'<,'>");
 				return;
 			case "f":
 				this.pendingFind = "f";
@@ -400,121 +1244,284 @@ class ModalEditor extends CustomEditor {
 				this.pendingFind = "T";
 				return;
 			default:
-				if (data.length === 1 && data.charCodeAt(0) >= 32) {
+				if (isCharKey(data)) {
 					this.resetPending();
 					return;
 				}
 				this.resetPending();
-				super.handleInput(data);
+				this.send(data);
 				return;
 		}
 	}
 
-	private handleDeleteOperator(data: string): void {
-		if (matchesKey(data, "shift+e")) {
-			const motionCount = this.consumeCount();
-			const total = Math.max(1, this.pendingOperatorCount * motionCount);
-			this.withTrackedEdit(() => {
-				this.send(SEQ.deleteWordForward, total);
-			});
+	private handleOperatorInput(data: string): void {
+		const operator = this.pendingOperator;
+		if (!operator) {
 			this.resetPending();
 			return;
 		}
 
-		switch (data) {
-			case "d": {
-				const motionCount = this.consumeCount();
-				const totalLines = Math.max(1, this.pendingOperatorCount * motionCount);
-				this.deleteCurrentLine(totalLines);
+		const key = matchesKey(data, "shift+e") ? "E" : data;
+		const count = Math.max(1, this.pendingOperatorCount * this.consumeCount());
+		const cursor = this.getCursor();
+
+		// dd, cc, yy, g~~, guu and gUU work on whole lines.
+		if (key === operator.slice(-1)) {
+			this.applyOperator(operator, cursor, { line: cursor.line + count - 1, col: 0 }, "linewise");
+			return;
+		}
+
+		switch (key) {
+			case "g":
+				this.pendingOperatorCount = count;
+				this.pendingPrefix = "g";
 				return;
-			}
-			case "w":
-			case "e": {
-				const motionCount = this.consumeCount();
-				const total = Math.max(1, this.pendingOperatorCount * motionCount);
-				this.withTrackedEdit(() => {
-					this.send(SEQ.deleteWordForward, total);
-				});
-				this.resetPending();
+			case "j":
+			case "k": {
+				// Like the motion, dj fails on the last line and dk on the first; a larger count stops at the edge.
+				const lastLine = this.getLines().length - 1;
+				if (key === "j" ? cursor.line >= lastLine : cursor.line <= 0) {
+					this.failCommand();
+					return;
+				}
+				const line = key === "j" ? Math.min(lastLine, cursor.line + count) : Math.max(0, cursor.line - count);
+				this.applyOperator(operator, cursor, { line, col: 0 }, "linewise");
 				return;
 			}
-			case "b": {
-				const motionCount = this.consumeCount();
-				const total = Math.max(1, this.pendingOperatorCount * motionCount);
-				this.withTrackedEdit(() => {
-					this.send(SEQ.deleteWordBackward, total);
-				});
-				this.resetPending();
+			case "f":
+			case "F":
+			case "t":
+			case "T":
+				this.pendingOperatorCount = count;
+				this.pendingFind = key;
 				return;
-			}
-			case "B": {
-				const motionCount = this.consumeCount();
-				const total = Math.max(1, this.pendingOperatorCount * motionCount);
-				this.deleteBigWordBackward(total);
+			case "i":
+			case "a":
+				this.pendingOperatorCount = count;
+				this.pendingTextObject = key;
 				return;
-			}
-			case "l": {
-				const motionCount = this.consumeCount();
-				const total = Math.max(1, this.pendingOperatorCount * motionCount);
-				this.withTrackedEdit(() => {
-					this.send(SEQ.deleteCharForward, total);
-				});
-				this.resetPending();
+			case "'":
+			case "`":
+				this.pendingOperatorCount = count;
+				this.pendingMark = key;
 				return;
-			}
-			case "h": {
-				const motionCount = this.consumeCount();
-				const total = Math.max(1, this.pendingOperatorCount * motionCount);
-				this.deleteCharsBackward(total);
+			case "/":
+			case "?":
+				this.openCommandLine(key, count);
 				return;
-			}
+		}
+
+		if (!MOTION_KEYS.has(key)) {
+			this.resetPending();
+			return;
+		}
+
+		const lines = this.getLines();
+		const bigWord = key === "W";
+		if (operator === "c" && (key === "w" || key === "W") && /\S/.test((lines[cursor.line] ?? "")[cursor.col] ?? "")) {
+			// cw on a word changes to its end, like ce, but a one-character word is not skipped.
+			const fullText = lines.join("\n");
+			const wordEnd = currentWordEnd(fullText, this.posToIndex(cursor), bigWord);
+			const end = wordEndForward(fullText, wordEnd, count - 1, bigWord);
+			this.applyOperator(operator, cursor, this.indexToPos(fullText, end), "inclusive");
+			return;
+		}
+
+		const kind = this.moveByMotion(key, count);
+		if (!kind) {
+			this.moveCursorTo(cursor);
+			this.failCommand();
+			return;
+		}
+		let target = this.getCursor();
+		if ((key === "w" || key === "W") && target.line > cursor.line && !/\S/.test((lines[target.line] ?? "").slice(0, target.col))) {
+			// When the last word moved over ends its line, the operator stops at that line end (dw on the last word).
+			target = { line: target.line - 1, col: (lines[target.line - 1] ?? "").length };
+		}
+		this.applyOperator(operator, cursor, target, kind);
+	}
+
+	/**
+	 * Run an operator + motion pair in one step, e.g. D as d$ or S as cc.
+	 */
+	private runOperatorMotion(operator: Operator, motion: string, count: number): void {
+		this.pendingOperator = operator;
+		this.pendingOperatorCount = Math.max(1, count);
+		this.handleOperatorInput(motion);
+	}
+
+	/**
+	 * Move the cursor by a motion key and report how an operator should treat the
+	 * covered range. Returns null when the key is not a motion or the motion fails.
+	 */
+	private moveByMotion(key: string, count: number): MotionKind | null {
+		const repeats = Math.max(1, count);
+		const cursor = this.getCursor();
+		const lines = this.getLines();
+		const lineText = lines[cursor.line] ?? "";
+
+		switch (key) {
+			case "h":
+				this.moveCursorTo({ line: cursor.line, col: retreatGraphemes(lineText, cursor.col, repeats) });
+				return "exclusive";
+			case "l":
+				this.moveCursorTo({ line: cursor.line, col: advanceGraphemes(lineText, cursor.col, repeats) });
+				return "exclusive";
+			case "j":
+				this.moveCursorVertically(repeats);
+				return "linewise";
+			case "k":
+				this.moveCursorVertically(-repeats);
+				return "linewise";
+			case "0":
+				this.send(SEQ.lineStart);
+				return "exclusive";
 			case "$": {
-				const motionCount = this.consumeCount();
-				const total = Math.max(1, this.pendingOperatorCount * motionCount);
-				this.deleteToLineEnd(total);
-				return;
+				const targetLine = Math.min(lines.length - 1, cursor.line + repeats - 1);
+				const col = (lines[targetLine] ?? "").length;
+				this.moveCursorTo({ line: targetLine, col });
+				// After $, j and k keep to the end of each line.
+				this.verticalColumn = { line: targetLine, col, column: Number.POSITIVE_INFINITY };
+				return "exclusive";
 			}
-			case "0": {
-				const motionCount = this.consumeCount();
-				const total = Math.max(1, this.pendingOperatorCount * motionCount);
-				this.deleteToLineStart(total);
-				return;
+			case "w":
+			case "W": {
+				const fullText = lines.join("\n");
+				const target = this.indexToPos(fullText, wordForward(fullText, this.posToIndex(cursor), repeats, key === "W"));
+				if (!this.pendingOperator) {
+					// Past the last word the cursor stops on the last character.
+					const targetText = lines[target.line] ?? "";
+					target.col = Math.min(target.col, previousGraphemeIndex(targetText, targetText.length));
+				}
+				this.moveCursorTo(target);
+				return "exclusive";
 			}
-			case "j": {
-				const motionCount = this.consumeCount();
-				const total = Math.max(1, this.pendingOperatorCount * motionCount);
-				this.deleteLinesDown(total);
-				return;
+			case "e":
+			case "E":
+			case "b":
+			case "B":
+			case "ge":
+			case "gE": {
+				const fullText = lines.join("\n");
+				const index = this.posToIndex(cursor);
+				const bigWord = key.endsWith("E") || key === "B";
+				const target =
+					key === "b" || key === "B"
+						? wordBackward(fullText, index, repeats, bigWord)
+						: key.startsWith("g")
+							? wordEndBackward(fullText, index, repeats, bigWord)
+							: wordEndForward(fullText, index, repeats, bigWord);
+				this.moveCursorTo(this.indexToPos(fullText, target));
+				return key === "b" || key === "B" ? "exclusive" : "inclusive";
 			}
-			case "k": {
-				const motionCount = this.consumeCount();
-				const total = Math.max(1, this.pendingOperatorCount * motionCount);
-				this.deleteLinesUp(total);
-				return;
+			case "n":
+			case "N": {
+				const search = this.lastSearch;
+				if (!search) {
+					return null;
+				}
+				const backward = key === "N" ? !search.backward : search.backward;
+				return this.moveToSearchMatch(search.pattern, backward, cursor, repeats) ? this.jumpedFrom(cursor) : null;
 			}
-			case "f":
-				this.pendingFind = "f";
-				return;
-			case "F":
-				this.pendingFind = "F";
-				return;
-			case "t":
-				this.pendingFind = "t";
-				return;
-			case "T":
-				this.pendingFind = "T";
-				return;
+			case "*":
+			case "#":
+				return this.searchWordUnderCursor(key === "#", repeats) ? this.jumpedFrom(cursor) : null;
 			default:
-				this.resetPending();
-				return;
+				return null;
+		}
+	}
+
+	private applyOperator(operator: Operator, from: Pos, to: Pos, kind: MotionKind): void {
+		if (kind === "linewise") {
+			this.applyLinewiseOperator(operator, Math.min(from.line, to.line), Math.max(from.line, to.line), from);
+			return;
+		}
+
+		const lines = this.getLines();
+		const fullText = lines.join("\n");
+		let startIndex = this.posToIndex(from);
+		let endIndex = this.posToIndex(to);
+		if (endIndex < startIndex) {
+			[startIndex, endIndex] = [endIndex, startIndex];
+		}
+		if (kind === "inclusive") {
+			endIndex = nextGraphemeIndex(fullText, endIndex);
+		}
+
+		const startPos = this.indexToPos(fullText, startIndex);
+		const removed = fullText.slice(startIndex, endIndex);
+		if (isCaseOperator(operator)) {
+			this.withTrackedEdit(() => {
+				const changed = changeCase(removed, operator);
+				this.setTextAndMoveCursor(fullText.slice(0, startIndex) + changed + fullText.slice(endIndex), startPos);
+			});
+			this.resetPending();
+			return;
+		}
+		if (removed.length > 0) {
+			this.writeRegister(operator === "y" ? "yank" : "delete", removed, "charwise");
+		}
+
+		if (operator === "y") {
+			this.markYanked(startIndex, Math.max(startIndex, endIndex - 1));
+		}
+		if (operator === "y" || removed.length === 0) {
+			this.moveCursorTo(operator === "y" ? startPos : from);
+		} else {
+			this.withTrackedEdit(() => {
+				const nextText = fullText.slice(0, startIndex) + fullText.slice(endIndex);
+				this.setTextAndMoveCursor(nextText, startPos);
+			});
+		}
+
+		if (operator === "c") {
+			this.mode = "insert";
+		}
+		this.resetPending();
+	}
+
+	private applyLinewiseOperator(operator: Operator, startLine: number, endLine: number, cursor: Pos): void {
+		const lines = this.getLines();
+		const firstLine = Math.max(0, Math.min(startLine, lines.length - 1));
+		const lastLine = Math.max(firstLine, Math.min(endLine, lines.length - 1));
+		if (isCaseOperator(operator)) {
+			const changed = lines.slice(firstLine, lastLine + 1).map((text) => changeCase(text, operator));
+			this.withTrackedEdit(() => {
+				const nextLines = [...lines.slice(0, firstLine), ...changed, ...lines.slice(lastLine + 1)];
+				this.setTextAndMoveCursor(nextLines.join("\n"), { line: firstLine, col: cursor.col });
+			});
+			this.resetPending();
+			return;
+		}
+		this.writeRegister(operator === "y" ? "yank" : "delete", lines.slice(firstLine, lastLine + 1).join("\n"), "linewise");
+
+		if (operator === "y") {
+			const end = this.posToIndex({ line: lastLine, col: (lines[lastLine] ?? "").length });
+			this.markYanked(this.posToIndex({ line: firstLine, col: 0 }), end);
+			this.moveCursorTo({ line: firstLine, col: cursor.col });
+			this.resetPending();
+			return;
+		}
+
+		if (operator === "d") {
+			this.deleteLinesAt(firstLine, lastLine - firstLine + 1);
+			return;
 		}
+
+		this.withTrackedEdit(() => {
+			const remaining = [...lines.slice(0, firstLine), "", ...lines.slice(lastLine + 1)];
+			this.setTextAndMoveCursor(remaining.join("\n"), { line: firstLine, col: 0 });
+		});
+		this.mode = "insert";
+		this.resetPending();
 	}
 
 	private applyFind(targetChar: string): void {
 		const findType = this.pendingFind;
 		const operator = this.pendingOperator;
 		const occurrenceCount = this.consumeCount();
-		const { line, col } = this.getCursor();
+		const cursor = this.getCursor();
+		const { line, col } = cursor;
 		const currentLine = this.getLines()[line] ?? "";
 
 		if (!findType) {
@@ -522,196 +1529,929 @@ class ModalEditor extends CustomEditor {
 			return;
 		}
 
+		// Match whole graphemes, so f on an emoji or an accented letter finds that character.
+		const graphemes = [...graphemesBetween(currentLine, 0, currentLine.length)];
+		const cursorIndex = graphemes.findIndex((segment) => segment.index + segment.segment.length > col);
 		const isBackward = findType === "F" || findType === "T";
-		let foundIndex = -1;
-		let from = isBackward ? col - 1 : col + 1;
-		const searchRepeats =
-			Math.max(1, occurrenceCount) * (operator === "d" ? Math.max(1, this.pendingOperatorCount) : 1);
+		let position = cursorIndex < 0 ? graphemes.length : cursorIndex;
+		const searchRepeats = Math.max(1, occurrenceCount) * (operator ? Math.max(1, this.pendingOperatorCount) : 1);
 
-		if (isBackward && from < 0) {
+		if (isBackward && position <= 0) {
 			this.resetPending();
 			return;
 		}
 
 		for (let i = 0; i < searchRepeats; i++) {
-			foundIndex = isBackward ? currentLine.lastIndexOf(targetChar, from) : currentLine.indexOf(targetChar, from);
-			if (foundIndex < 0) {
-				this.resetPending();
+			do {
+				position += isBackward ? -1 : 1;
+			} while (position >= 0 && position < graphemes.length && graphemes[position]!.segment !== targetChar);
+			if (position < 0 || position >= graphemes.length) {
+				this.failCommand();
 				return;
 			}
-			from = isBackward ? foundIndex - 1 : foundIndex + 1;
 		}
 
-		if (operator === "d") {
-			if (isBackward) {
-				const targetStart = findType === "F" ? foundIndex : Math.min(col, foundIndex + 1);
-				const deleteEnd = col + (col < currentLine.length ? 1 : 0);
-				this.deleteRangeInCurrentLine(targetStart, deleteEnd);
-				return;
-			}
-
-			const totalDeletesForMotion =
-				findType === "f" ? Math.max(0, foundIndex - col + 1) : Math.max(0, foundIndex - col);
-			this.withTrackedEdit(() => {
-				this.send(SEQ.deleteCharForward, totalDeletesForMotion);
-			});
-			this.resetPending();
-			return;
+		const foundIndex = graphemes[position]!.index;
+		let targetCol: number;
+		if (isBackward) {
+			targetCol = findType === "F" ? foundIndex : Math.min(col, graphemes[position + 1]!.index);
+		} else {
+			targetCol = findType === "f" ? foundIndex : Math.max(col, graphemes[position - 1]!.index);
 		}
 
-		if (isBackward) {
-			const targetCol = findType === "F" ? foundIndex : Math.min(col, foundIndex + 1);
-			const steps = Math.max(0, col - targetCol);
-			this.send(SEQ.left, steps);
-			this.resetPending();
+		if (operator) {
+			this.applyOperator(operator, cursor, { line, col: targetCol }, isBackward ? "exclusive" : "inclusive");
 			return;
 		}
 
-		const targetCol = findType === "f" ? foundIndex : Math.max(col, foundIndex - 1);
-		const steps = Math.max(0, targetCol - col);
-		this.send(SEQ.right, steps);
+		this.moveCursorTo({ line, col: targetCol });
 		this.resetPending();
 	}
 
-	private moveBigWordBackward(count: number): void {
-		const repeats = Math.max(1, count);
-		const cursor = this.getCursor();
+	private applyTextObject(key: string): void {
+		const around = this.pendingTextObject === "a";
+		const operator = this.pendingOperator;
+		const count = this.consumeCount() * (operator ? Math.max(1, this.pendingOperatorCount) : 1);
 		const lines = this.getLines();
 		const fullText = lines.join("\n");
-		const fromIndex = this.posToIndex(lines, cursor);
-		const targetIndex = this.findBigWordStartBackward(fullText, fromIndex, repeats);
-		this.moveCursorTo(this.indexToPos(fullText, targetIndex));
-		this.resetPending();
-	}
-
-	private deleteBigWordBackward(count: number): void {
-		const repeats = Math.max(1, count);
 		const cursor = this.getCursor();
-		const lines = this.getLines();
-		const fullText = lines.join("\n");
-		const cursorIndex = this.posToIndex(lines, cursor);
-		const targetIndex = this.findBigWordStartBackward(fullText, cursorIndex, repeats);
-		const deleteEnd = cursorIndex;
 
-		if (targetIndex >= deleteEnd) {
-			this.resetPending();
+		let range: TextObjectRange | null = null;
+		if (isTextObjectKey(key)) {
+			range = findTextObject(fullText, this.posToIndex(cursor), key, around, count);
+		}
+		if (!range) {
+			this.failCommand();
 			return;
 		}
 
-		this.withTrackedEdit(() => {
-			const nextText = fullText.slice(0, targetIndex) + fullText.slice(deleteEnd);
-			this.setTextAndMoveCursor(nextText, this.indexToPos(nextText, targetIndex));
-		});
+		const start = this.indexToPos(fullText, range.start);
+		const end = this.indexToPos(fullText, range.end);
+
+		if (operator) {
+			this.applyOperator(operator, start, end, range.linewise ? "linewise" : "exclusive");
+			return;
+		}
+
+		if (this.isVisualMode()) {
+			if (range.linewise) {
+				this.visualAnchor = { line: start.line, col: 0 };
+				const endText = lines[end.line] ?? "";
+				this.moveCursorTo({ line: end.line, col: previousGraphemeIndex(endText, endText.length) });
+			} else {
+				this.visualAnchor = start;
+				this.moveCursorTo(this.indexToPos(fullText, Math.max(range.start, previousGraphemeIndex(fullText, range.end))));
+			}
+		}
 		this.resetPending();
 	}
 
-	private findBigWordStartBackward(text: string, fromIndex: number, repeats: number): number {
-		let index = Math.max(0, Math.min(fromIndex, text.length));
-		const steps = Math.max(1, repeats);
+	private openCommandLine(prefix: CommandLine["prefix"], count: number, text: string = ""): void {
+		this.commandLine = {
+			prefix,
+			text,
+			cursor: text.length,
+			origin: this.getCursor(),
+			count,
+			historyIndex: prefix === "q/" ? 0 : -1,
+			draft: prefix === "q/" ? this.getText() : undefined,
+		};
+	}
 
-		for (let step = 0; step < steps; step++) {
-			if (index <= 0) {
-				return 0;
-			}
+	private handleCommandLineInput(data: string): void {
+		const line = this.commandLine;
+		if (!line) {
+			return;
+		}
 
-			let probe = index - 1;
-			while (probe >= 0 && isWhitespaceChar(text[probe] ?? "")) {
-				probe -= 1;
-			}
-			if (probe < 0) {
-				return 0;
+		if (matchesKey(data, "escape")) {
+			this.cancelCommandLine();
+			return;
+		}
+
+		if (matchesKey(data, "enter")) {
+			this.commandLine = null;
+			if (line.prefix === ":") {
+				this.submitExCommand(line);
+			} else if (line.prefix === "q/") {
+				this.submitPromptSearch(line);
+			} else {
+				this.submitSearch(line);
 			}
+			return;
+		}
 
-			while (probe >= 0 && !isWhitespaceChar(text[probe] ?? "")) {
-				probe -= 1;
+		if (matchesKey(data, "backspace")) {
+			if (line.text.length === 0) {
+				this.cancelCommandLine();
+				return;
 			}
-			index = probe + 1;
+			line.text = line.text.slice(0, Math.max(0, line.cursor - 1)) + line.text.slice(line.cursor);
+			line.cursor = Math.max(0, line.cursor - 1);
+		} else if (matchesKey(data, "ctrl+w")) {
+			const start = line.text.slice(0, line.cursor).search(/(\w+|[^\w\s]+)?\s*$/);
+			line.text = line.text.slice(0, start) + line.text.slice(line.cursor);
+			line.cursor = start;
+		} else if (matchesKey(data, "ctrl+u")) {
+			line.text = line.text.slice(line.cursor);
+			line.cursor = 0;
+		} else if (matchesKey(data, "left") || matchesKey(data, "right")) {
+			line.cursor = Math.max(0, Math.min(line.text.length, line.cursor + (matchesKey(data, "left") ? -1 : 1)));
+			return;
+		} else if (matchesKey(data, "home") || matchesKey(data, "ctrl+b")) {
+			line.cursor = 0;
+			return;
+		} else if (matchesKey(data, "end") || matchesKey(data, "ctrl+e")) {
+			line.cursor = line.text.length;
+			return;
+		} else if (line.prefix === "q/" && (matchesKey(data, "up") || matchesKey(data, "down"))) {
+			// Older and newer prompts matching the query.
+			const matches = this.findPromptMatches(line.text);
+			line.historyIndex = Math.max(0, Math.min(matches.length - 1, line.historyIndex + (matchesKey(data, "up") ? 1 : -1)));
+			this.previewPromptMatch(line);
+			return;
+		} else if (matchesKey(data, "up") || matchesKey(data, "down")) {
+			const history = line.prefix === ":" ? this.exHistory : this.searchHistory;
+			const step = matchesKey(data, "up") ? 1 : -1;
+			const nextIndex = Math.max(-1, Math.min(history.length - 1, line.historyIndex + step));
+			line.historyIndex = nextIndex;
+			line.text = nextIndex >= 0 ? (history[nextIndex] ?? "") : "";
+			line.cursor = line.text.length;
+		} else if (data.length > 0 && data.charCodeAt(0) >= 32) {
+			line.text = line.text.slice(0, line.cursor) + data + line.text.slice(line.cursor);
+			line.cursor += data.length;
+		} else {
+			return;
 		}
 
-		return index;
+		if (line.prefix === "q/") {
+			line.historyIndex = 0;
+			this.previewPromptMatch(line);
+		} else if (line.prefix !== ":") {
+			this.previewSearch(line);
+		}
 	}
 
-	private deleteRangeInCurrentLine(startCol: number, endColExclusive: number): void {
-		const cursor = this.getCursor();
-		const lines = this.getLines();
-		const currentLine = lines[cursor.line] ?? "";
-		const lineLength = currentLine.length;
-		const start = Math.max(0, Math.min(startCol, lineLength));
-		const end = Math.max(start, Math.min(endColExclusive, lineLength));
+	private cancelCommandLine(): void {
+		const line = this.commandLine;
+		this.commandLine = null;
+		if (line?.draft !== undefined) {
+			this.restoreDraft(line);
+		} else if (line) {
+			this.moveCursorTo(line.origin);
+		}
+		this.resetPending();
+	}
 
-		if (start >= end) {
-			this.resetPending();
+	/**
+	 * k on the first line / j on the last: load an older (steps > 0) or newer
+	 * prompt from pi's history, each as one undoable change. Going past the newest
+	 * brings back the text that was there before browsing.
+	 */
+	private walkPromptHistory(steps: number): void {
+		const history = (this as unknown as EditorInternals).history;
+		const text = this.getText();
+		// Editing a loaded prompt starts browsing afresh from the edited text.
+		const browsing = this.promptHistory && history[this.promptHistory.index] === text ? this.promptHistory : null;
+		const current = browsing?.index ?? -1;
+		const target = Math.max(-1, Math.min(history.length - 1, current + steps));
+		if (target === current) {
+			this.failCommand();
 			return;
 		}
 
+		const draft = browsing?.draft ?? text;
+		this.loadPrompt(target >= 0 ? history[target]! : draft, steps > 0);
+		this.promptHistory = target >= 0 ? { index: target, draft } : null;
+		this.resetPending();
+	}
+
+	/**
+	 * Replace the editor text with a prompt as one undoable change. Coming from
+	 * newer prompts the cursor starts on the last line, so k keeps going up.
+	 */
+	private loadPrompt(text: string, older: boolean): void {
 		this.withTrackedEdit(() => {
-			lines[cursor.line] = currentLine.slice(0, start) + currentLine.slice(end);
-			this.setTextAndMoveCursor(lines.join("\n"), { line: cursor.line, col: start });
+			this.setTextAndMoveCursor(text, { line: older ? text.split("\n").length - 1 : 0, col: 0 });
 		});
-		this.resetPending();
 	}
 
-	private deleteCurrentLine(count: number): void {
-		const cursor = this.getCursor();
-		this.deleteLinesAt(cursor.line, Math.max(1, count));
+	/**
+	 * Prompts (most recent first) matching a q/ query, which is a search pattern.
+	 */
+	private findPromptMatches(query: string): string[] {
+		const history = (this as unknown as EditorInternals).history;
+		const regex = compileSearchPattern(query, this.getSearchOptions());
+		return regex ? history.filter((prompt) => findMatches(prompt, regex).length > 0) : history;
 	}
 
-	private deleteToLineEnd(count: number): void {
-		const repeats = Math.max(1, count);
-		this.withTrackedEdit(() => {
-			this.send(SEQ.deleteToEnd);
-			for (let i = 1; i < repeats; i++) {
-				this.send(SEQ.deleteToEnd);
-				this.send(SEQ.deleteToEnd);
+	/**
+	 * Show the selected q/ match in the editor while the query is typed. The
+	 * preview is not an edit: the draft is put back before anything is recorded.
+	 */
+	private previewPromptMatch(line: CommandLine): void {
+		const match = this.findPromptMatches(line.text)[line.historyIndex];
+		if (match === undefined) {
+			this.restoreDraft(line);
+			return;
+		}
+		if (this.getText() !== match) {
+			this.setTextAndMoveCursor(match, { line: 0, col: 0 });
+		}
+	}
+
+	private restoreDraft(line: CommandLine): void {
+		if (this.getText() !== line.draft) {
+			this.setText(line.draft ?? "");
+		}
+		this.moveCursorTo(line.origin);
+	}
+
+	private submitPromptSearch(line: CommandLine): void {
+		const match = this.findPromptMatches(line.text)[line.historyIndex];
+		this.restoreDraft(line);
+		this.resetPending();
+		if (match === undefined) {
+			this.failCommand();
+			return;
+		}
+		this.loadPrompt(match, true);
+		this.promptHistory = { index: (this as unknown as EditorInternals).history.indexOf(match), draft: line.draft ?? "" };
+	}
+
+	/**
+	 * Incremental search: move to the first match while the pattern is typed.
+	 */
+	private previewSearch(line: CommandLine): void {
+		if (line.text.length === 0 || !this.moveToSearchMatch(line.text, line.prefix === "?", line.origin, line.count)) {
+			this.moveCursorTo(line.origin);
+		}
+	}
+
+	private submitSearch(line: CommandLine): void {
+		const pattern = line.text.length > 0 ? line.text : (this.lastSearch?.pattern ?? "");
+		const backward = line.prefix === "?";
+		this.moveCursorTo(line.origin);
+		if (!pattern) {
+			this.failCommand();
+			return;
+		}
+
+		this.searchHistory = [pattern, ...this.searchHistory.filter((entry) => entry !== pattern)].slice(
+			0,
+			MAX_COMMAND_HISTORY,
+		);
+		this.lastSearch = { pattern, backward };
+		this.searchHighlight = true;
+
+		if (!this.moveToSearchMatch(pattern, backward, line.origin, line.count)) {
+			this.failCommand();
+			return;
+		}
+
+		const operator = this.pendingOperator;
+		if (operator) {
+			this.applyOperator(operator, line.origin, this.getCursor(), "exclusive");
+			return;
+		}
+		this.recordJump(line.origin);
+		this.resetPending();
+	}
+
+	private submitExCommand(line: CommandLine): void {
+		// Trailing spaces matter to :normal, so only leading ones are dropped.
+		const command = line.text.trimStart();
+		this.moveCursorTo(line.origin);
+		this.resetPending();
+		if (command.trim().length === 0) {
+			return;
+		}
+
+		this.exHistory = [command, ...this.exHistory.filter((entry) => entry !== command)].slice(0, MAX_COMMAND_HISTORY);
+		this.executeExCommand(command);
+	}
+
+	private executeExCommand(text: string): void {
+		const buffer = new ExBuffer(this.getLines(), this.getCursor().line);
+		try {
+			const command = parseExCommand(text, this.getAddressContext(buffer));
+			if (this.runEditorCommand(command)) {
+				return;
+			}
+			this.withTrackedEdit(() => {
+				try {
+					this.runLineCommand(command, buffer, false);
+				} finally {
+					this.applyExBuffer(buffer);
+				}
+			});
+		} catch (error) {
+			if (!(error instanceof ExError)) {
+				throw error;
+			}
+			this.showError(error.message);
+		}
+	}
+
+	/**
+	 * Commands that act on the editor rather than on lines of text.
+	 */
+	private runEditorCommand(command: ExCommand): boolean {
+		const arg = command.arg.trim();
+		switch (command.name) {
+			case "undolist":
+				this.messages = formatUndoList(this.undoTree.leaves(), Date.now());
+				return true;
+			case "earlier":
+			case "later": {
+				const amount = arg.match(/^(\d*)([smhd]?)$/);
+				if (!amount) {
+					throw new ExError(`E475: Invalid argument: ${arg}`);
+				}
+				const direction = command.name === "earlier" ? -1 : 1;
+				const value = amount[1] ? Number.parseInt(amount[1], 10) : 1;
+				const unit = amount[2] ? TIME_UNITS[amount[2]]! : 0;
+				this.applyUndoStep(
+					unit > 0 ? this.undoTree.travel(direction * value * unit) : this.undoTree.step(direction * value),
+				);
+				return true;
 			}
+			case "undo":
+				if (!arg) {
+					this.undo();
+				} else if (/^\d+$/.test(arg)) {
+					this.applyUndoStep(this.undoTree.goTo(Number.parseInt(arg, 10)));
+				} else {
+					throw new ExError("E474: Invalid argument");
+				}
+				return true;
+			case "redo":
+				this.redo();
+				return true;
+			case "nohlsearch":
+				this.searchHighlight = false;
+				return true;
+			case "let":
+				this.exLet(arg);
+				return true;
+			case "set": {
+				const shown = this.options.set(arg);
+				if (shown.length > 0) {
+					this.messages = shown;
+				}
+				return true;
+			}
+			default: {
+				const mapCommand = getMapCommand(command.name);
+				if (!mapCommand) {
+					return false;
+				}
+				// Trailing spaces are part of a mapping's right-hand side.
+				this.exMap(mapCommand, command.arg.trimStart());
+				return true;
+			}
+		}
+	}
+
+	/**
+	 * :map family. With no arguments lists the mappings, with only a left-hand
+	 * side lists mappings starting with it.
+	 */
+	private exMap(command: MapCommand, arg: string): void {
+		const parsed = arg.match(/^(\S+)(?:\s+([\s\S]*))?$/);
+		const lhs = parsed ? parseKeyNotation(parsed[1]!, this.mapLeader) : [];
+		const rhs = parsed?.[2] || undefined;
+
+		if (command.remove) {
+			const removed = command.modes.map((mode) => this.mappings.remove(mode, lhs)).some(Boolean);
+			if (!removed) {
+				throw new ExError("E31: No such mapping");
+			}
+			return;
+		}
+
+		if (rhs === undefined) {
+			const prefix = formatKeys(lhs);
+			const rows = command.modes.flatMap((mode) =>
+				this.mappings
+					.list(mode)
+					.filter((mapping) => formatKeys(mapping.lhs).startsWith(prefix))
+					.map(
+						(mapping) =>
+							`${mode}  ${formatKeys(mapping.lhs).padEnd(12)} ${mapping.recursive ? " " : "*"} ${formatKeys(mapping.rhs)}`,
+					),
+			);
+			this.messages = rows.length > 0 ? rows : ["No mapping found"];
+			return;
+		}
+
+		if (lhs.length === 0) {
+			throw new ExError("E474: Invalid argument");
+		}
+		const keys = parseKeyNotation(rhs, this.mapLeader);
+		for (const mode of command.modes) {
+			this.mappings.set(mode, lhs, keys, command.recursive);
+		}
+	}
+
+	private exLet(arg: string): void {
+		const parsed = arg.match(/^(?:g:)?mapleader\s*=\s*(["'])(.*)\1$/);
+		if (!parsed) {
+			throw new ExError(`E121: Undefined variable: ${arg.split(/\s|=/)[0]}`);
+		}
+		this.mapLeader = parseKeyNotation(parsed[2]!, DEFAULT_MAP_LEADER)[0] ?? DEFAULT_MAP_LEADER;
+	}
+
+	/**
+	 * Run vimrc lines, returning an error per failed line. With `secure` (the
+	 * project's file) only :set runs, as mappings could rewrite what is sent.
+	 */
+	runConfig(lines: string[], secure: boolean = false): string[] {
+		const errors: string[] = [];
+		for (const [index, line] of lines.entries()) {
+			const command = line.trim();
+			if (command.length === 0 || command.startsWith('"')) {
+				continue;
+			}
+			if (secure && resolveCommandName(command.match(/^:*\s*([a-z]*)/)![1]!) !== "set") {
+				errors.push(`line ${index + 1}: E12: Command not allowed in a project vimrc: ${command}`);
+				continue;
+			}
+			this.messages = [];
+			this.commandFailed = false;
+			this.executeExCommand(command);
+			if (this.commandFailed) {
+				errors.push(`line ${index + 1}: ${this.messages.join(" ")}`);
+			}
+		}
+		this.messages = [];
+		this.commandFailed = false;
+		this.mode = this.options.get("startmode");
+		return errors;
+	}
+
+	private runLineCommand(command: ExCommand, buffer: ExBuffer, nested: boolean): void {
+		const range = command.range ?? { start: buffer.cursorLine, end: buffer.cursorLine };
+		switch (command.name) {
+			case "":
+				if (command.range) {
+					if (!nested) {
+						this.recordJump(this.getCursor());
+					}
+					buffer.cursorLine = Math.min(Math.max(0, range.end), buffer.lastLine());
+					buffer.cursorCol = null;
+				}
+				return;
+			case "substitute":
+				this.exSubstitute(buffer.checkRange(range), command.arg, buffer, nested);
+				return;
+			case "global":
+			case "vglobal":
+				if (nested) {
+					throw new ExError("E147: Cannot do :global recursive");
+				}
+				this.exGlobal(
+					buffer.checkRange(command.range ?? { start: 0, end: buffer.lastLine() }),
+					command.name === "vglobal" || command.bang,
+					command.arg,
+					buffer,
+				);
+				return;
+			case "delete":
+				this.exDelete(buffer.checkRange(range), command.arg, buffer);
+				return;
+			case "move":
+				buffer.moveLines(buffer.checkRange(range), this.parseDestination(command.arg, buffer));
+				return;
+			case "t":
+			case "copy":
+				buffer.copyLines(buffer.checkRange(range), this.parseDestination(command.arg, buffer));
+				return;
+			case "print": {
+				const { start, end } = buffer.checkRange(range);
+				this.messages.push(...buffer.texts().slice(start, end + 1));
+				buffer.cursorLine = end;
+				buffer.cursorCol = null;
+				return;
+			}
+			case "normal":
+				this.exNormal(buffer.checkRange(range), command.arg, !command.bang, buffer);
+				return;
+			default:
+				throw new ExError(`E492: Not an editor command: ${command.name}`);
+		}
+	}
+
+	private exSubstitute(range: LineRange, arg: string, buffer: ExBuffer, nested: boolean): void {
+		const parsed = parseSubstitute(arg);
+		const previous = this.lastSubstitute;
+		if (!parsed && !previous) {
+			throw new ExError("E35: No previous regular expression");
+		}
+		const flags = parsed ? parsed.flags : arg.trim();
+		const pattern = (parsed ? parsed.pattern : previous!.pattern) || this.lastSearch?.pattern;
+		const replacement = parsed ? parsed.replacement : previous!.replacement;
+		const regex = pattern ? compileSearchPattern(pattern, this.getSubstituteSearchOptions(flags)) : null;
+		if (!pattern || !regex) {
+			throw new ExError("E35: No previous regular expression");
+		}
+
+		this.lastSubstitute = { pattern, replacement };
+		this.lastSearch = { pattern, backward: false };
+		this.searchHighlight = true;
+
+		const target = flags.includes("n") ? new ExBuffer(buffer.texts(), buffer.cursorLine) : buffer;
+		const result = target.substitute(range, regex, replacement, flags.includes("g"));
+		if (result.count === 0) {
+			if (!nested && !flags.includes("e")) {
+				throw new ExError(`E486: Pattern not found: ${pattern}`);
+			}
+			return;
+		}
+		if (flags.includes("n")) {
+			this.messages = [`${result.count} matches on ${result.lines} lines`];
+		} else if (result.lines > 2) {
+			this.messages = [`${result.count} substitutions on ${result.lines} lines`];
+		}
+	}
+
+	/**
+	 * :g marks every matching line first, then runs the command on each marked line
+	 * that still exists, so commands that delete or move lines do not skip any.
+	 */
+	private exGlobal(range: LineRange, invert: boolean, arg: string, buffer: ExBuffer): void {
+		const { pattern: typed, command } = parseGlobal(arg);
+		const pattern = typed || this.lastSearch?.pattern;
+		const regex = pattern ? compileSearchPattern(pattern, this.getSearchOptions()) : null;
+		if (!pattern || !regex) {
+			throw new ExError("E35: No previous regular expression");
+		}
+		this.lastSearch = { pattern, backward: false };
+		this.searchHighlight = true;
+
+		const marked = buffer.lines.slice(range.start, range.end + 1).filter((line) => {
+			regex.lastIndex = 0;
+			return regex.test(line.text) !== invert;
 		});
-		this.resetPending();
+		if (marked.length === 0) {
+			this.messages = [`Pattern not found: ${pattern}`];
+			return;
+		}
+
+		for (const line of marked) {
+			const index = buffer.lines.indexOf(line);
+			if (index < 0) {
+				continue;
+			}
+			buffer.cursorLine = index;
+			this.runLineCommand(parseExCommand(command || "p", this.getAddressContext(buffer)), buffer, true);
+		}
+	}
+
+	private exDelete(range: LineRange, arg: string, buffer: ExBuffer): void {
+		const parsed = arg.trim().match(/^([a-zA-Z"_+*-])?\s*(\d+)?$/);
+		if (!parsed) {
+			throw new ExError("E488: Trailing characters");
+		}
+		const count = parsed[2] ? Number.parseInt(parsed[2], 10) : 0;
+		const target =
+			count > 0 ? { start: range.end, end: Math.min(buffer.lastLine(), range.end + count - 1) } : range;
+		const removed = buffer.deleteLines(target);
+		this.registers.write(parsed[1] ?? null, "delete", { text: removed.join("\n"), type: "linewise" });
+	}
+
+	/**
+	 * :normal runs the keys on each line of the range in turn, starting at column 0.
+	 * An unfinished command or insert session is ended the way Escape would.
+	 */
+	private exNormal(range: LineRange, keys: string, remap: boolean, buffer: ExBuffer): void {
+		const targets = buffer.lines.slice(range.start, range.end + 1);
+		for (const line of targets) {
+			const index = buffer.lines.indexOf(line);
+			if (index < 0) {
+				continue;
+			}
+
+			this.setTextAndMoveCursor(buffer.texts().join("\n"), { line: index, col: 0 });
+			this.mode = "normal";
+			this.resetPending();
+			this.macroDepth += 1;
+			this.commandFailed = false;
+			try {
+				this.runKeys(splitKeys(keys), remap);
+				if (this.mode !== "normal" || this.hasPendingCommand()) {
+					this.processInput("\x1b");
+				}
+			} finally {
+				this.macroDepth -= 1;
+			}
+
+			const cursor = this.getCursor();
+			buffer.replaceTexts(this.getLines());
+			buffer.cursorLine = cursor.line;
+			buffer.cursorCol = cursor.col;
+		}
+	}
+
+	private parseDestination(arg: string, buffer: ExBuffer): number {
+		const { line, rest } = parseAddress(arg, this.getAddressContext(buffer));
+		if (line === null || rest.trim().length > 0) {
+			throw new ExError("E14: Invalid address");
+		}
+		return buffer.checkAddress(line);
 	}
 
-	private deleteToLineStart(_count: number): void {
+	private getAddressContext(buffer: ExBuffer): AddressContext {
+		return {
+			cursorLine: buffer.cursorLine,
+			lineCount: buffer.lines.length,
+			mark: (name) => this.getMarkLine(name),
+		};
+	}
+
+	/**
+	 * m{a-z} sets a mark; '{mark} and `{mark} jump to its line (first non-blank) or
+	 * exact position, or act as linewise / exclusive motions after an operator.
+	 */
+	private applyMark(name: string): void {
+		const command = this.pendingMark;
+		this.pendingMark = null;
 		const cursor = this.getCursor();
-		if (cursor.col <= 0) {
+		if (command === "m") {
+			if (/^[a-z'`]$/.test(name)) {
+				this.marks.set(name, this.posToIndex(cursor));
+			}
 			this.resetPending();
 			return;
 		}
 
-		this.withTrackedEdit(() => {
-			const lines = this.getLines();
-			const currentLine = lines[cursor.line] ?? "";
-			lines[cursor.line] = currentLine.slice(cursor.col);
-			this.setTextAndMoveCursor(lines.join("\n"), { line: cursor.line, col: 0 });
-		});
+		const mark = isMarkName(name) ? this.getMarkPos(name) : null;
+		if (!mark) {
+			this.showError("E20: Mark not set");
+			return;
+		}
+		const linewise = command === "'";
+		const target = linewise ? { line: mark.line, col: Math.max(0, (this.getLines()[mark.line] ?? "").search(/\S/)) } : mark;
+
+		const operator = this.pendingOperator;
+		if (operator) {
+			this.applyOperator(operator, cursor, target, linewise ? "linewise" : "exclusive");
+			return;
+		}
+		if (!this.isVisualMode()) {
+			this.recordJump(cursor);
+		}
+		this.moveCursorTo(target);
+		this.resetPending();
+	}
+
+	private getMarkPos(name: string): Pos | null {
+		const offset = this.marks.get(name);
+		return offset === null ? null : this.indexToPos(this.getText(), offset);
+	}
+
+	/**
+	 * Remember where a jump started, for Ctrl-O and the ' mark.
+	 */
+	private recordJump(from: Pos): void {
+		const offset = this.posToIndex(from);
+		this.jumps.push(offset);
+		this.marks.set("'", offset);
+	}
+
+	/**
+	 * Record a successful search motion as a jump unless an operator uses it.
+	 */
+	private jumpedFrom(from: Pos): MotionKind {
+		if (!this.pendingOperator) {
+			this.recordJump(from);
+		}
+		return "exclusive";
+	}
+
+	private jumpThroughList(backward: boolean, count: number): void {
+		const current = this.posToIndex(this.getCursor());
+		const offset = backward ? this.jumps.back(current, count) : this.jumps.forward(count);
+		if (offset === null) {
+			this.failCommand();
+			return;
+		}
+		this.moveCursorTo(this.indexToPos(this.getText(), offset));
 		this.resetPending();
 	}
 
-	private deleteCharsBackward(count: number): void {
+	private markYanked(start: number, end: number): void {
+		this.marks.set("[", start);
+		this.marks.set("]", end);
+	}
+
+	private getMarkLine(name: string): number | null {
+		return this.getMarkPos(name)?.line ?? null;
+	}
+
+	private applyExBuffer(buffer: ExBuffer): void {
+		const texts = buffer.texts();
+		const line = Math.max(0, Math.min(buffer.cursorLine, texts.length - 1));
+		const col = buffer.cursorCol ?? Math.max(0, (texts[line] ?? "").search(/\S/));
+		this.setTextAndMoveCursor(texts.join("\n"), { line, col });
+		this.mode = "normal";
+	}
+
+	private getSearchOptions(): SearchOptions {
+		return { ignoreCase: this.options.get("ignorecase"), smartCase: this.options.get("smartcase") };
+	}
+
+	/**
+	 * :s flags i and I override 'ignorecase' for one substitute.
+	 */
+	private getSubstituteSearchOptions(flags: string): SearchOptions {
+		if (flags.includes("i")) {
+			return { ignoreCase: true };
+		}
+		return flags.includes("I") ? { ignoreCase: false } : this.getSearchOptions();
+	}
+
+	private showError(message: string): void {
+		this.messages = [message];
+		this.failCommand();
+	}
+
+	private moveToSearchMatch(pattern: string, backward: boolean, from: Pos, count: number): boolean {
+		const regex = compileSearchPattern(pattern, this.getSearchOptions());
+		if (!regex) {
+			return false;
+		}
+		const lines = this.getLines();
+		const fullText = lines.join("\n");
+		const match = findNextMatch(findMatches(fullText, regex), this.posToIndex(from), backward, count);
+		if (!match) {
+			return false;
+		}
+		this.moveCursorTo(this.indexToPos(fullText, match.start));
+		return true;
+	}
+
+	private searchWordUnderCursor(backward: boolean, count: number): boolean {
 		const cursor = this.getCursor();
-		if (cursor.col <= 0) {
+		const currentLine = this.getLines()[cursor.line] ?? "";
+		let word: string | null = null;
+		for (const match of currentLine.matchAll(/\w+/g)) {
+			const start = match.index ?? 0;
+			if (start + match[0].length > cursor.col) {
+				word = match[0];
+				break;
+			}
+		}
+		if (!word) {
+			return false;
+		}
+
+		const pattern = wordSearchPattern(word);
+		this.lastSearch = { pattern, backward };
+		this.searchHighlight = true;
+		return this.moveToSearchMatch(pattern, backward, cursor, count);
+	}
+
+	private isRepeatKey(data: string): boolean {
+		return (
+			data === "." &&
+			this.mode === "normal" &&
+			!this.pendingOperator &&
+			!this.pendingFind &&
+			!this.pendingTextObject &&
+			!this.pendingPrefix &&
+			!this.pendingRegister &&
+			!this.pendingMacro &&
+			!this.pendingMark
+		);
+	}
+
+	/**
+	 * Once a command recorded from normal mode has fully completed (including any
+	 * insert session it started), keep it for "." if it changed the text.
+	 */
+	private finishChangeRecording(recording: ChangeRecording): void {
+		if (this.mode !== "normal" || this.hasPendingCommand()) {
+			return;
+		}
+
+		this.changeRecording = null;
+		if (recording.changeTick === this.changeTick) {
+			return;
+		}
+
+		if (recording.visual) {
+			this.lastChange = { keys: recording.keys.map((entry) => entry.key), count: 0 };
+			return;
+		}
+
+		// Counts are stored separately so "3." can replace them; "2d3w" repeats as a count of 6.
+		let count = 0;
+		let digits = "";
+		const keys: string[] = [];
+		for (const entry of recording.keys) {
+			if (entry.isCount) {
+				digits += entry.key;
+				continue;
+			}
+			if (digits) {
+				count = Math.max(1, count) * Number.parseInt(digits, 10);
+				digits = "";
+			}
+			keys.push(entry.key);
+		}
+		this.lastChange = { keys, count };
+	}
+
+	private repeatLastChange(count: number): void {
+		const change = this.lastChange;
+		this.resetPending();
+		if (!change) {
+			return;
+		}
+
+		if (count > 0) {
+			this.lastChange = { ...change, count };
+		}
+		const repeatCount = count > 0 ? count : change.count;
+		const keys = repeatCount > 0 ? [...String(repeatCount), ...change.keys] : change.keys;
+
+		this.repeatingChange = true;
+		try {
+			this.withTrackedEdit(() => {
+				for (const key of keys) {
+					this.dispatchInput(key);
+				}
+			});
+		} finally {
+			this.repeatingChange = false;
+		}
+	}
+
+	private applyMacroCommand(register: string): void {
+		const command = this.pendingMacro;
+		const count = this.consumeCount();
+		this.pendingMacro = null;
+
+		if (command === "q" && register === "/") {
+			this.resetPending();
+			this.openCommandLine("q/", 1);
+			return;
+		}
+		if (command === "q") {
+			if (register.length === 1 && isRecordableRegister(register)) {
+				this.macroRegister = register;
+				this.macroKeys = [];
+			}
 			this.resetPending();
 			return;
 		}
 
-		const deleteCount = Math.min(Math.max(1, count), cursor.col);
-		this.withTrackedEdit(() => {
-			const lines = this.getLines();
-			const currentLine = lines[cursor.line] ?? "";
-			const start = cursor.col - deleteCount;
-			lines[cursor.line] = currentLine.slice(0, start) + currentLine.slice(cursor.col);
-			this.setTextAndMoveCursor(lines.join("\n"), { line: cursor.line, col: start });
-		});
+		this.playMacro(register === "@" ? this.lastMacroRegister : register, count);
+	}
+
+	private stopMacroRecording(): void {
+		const register = this.macroRegister;
+		// Drop the "q" that stopped the recording.
+		const keys = this.macroKeys.slice(0, -1);
+		this.macroRegister = null;
+		this.macroKeys = [];
+		if (register) {
+			this.registers.record(register, formatRecordedKeys(keys));
+		}
 		this.resetPending();
 	}
 
-	private deleteLinesDown(count: number): void {
-		const cursor = this.getCursor();
-		this.deleteLinesAt(cursor.line, Math.max(1, count) + 1);
+	private playMacro(register: string | null, count: number): void {
+		const content = register && isRegisterName(register) ? this.registers.read(register) : null;
+		if (!register || !content || this.macroDepth >= MAX_MACRO_DEPTH) {
+			this.failCommand();
+			return;
+		}
+
+		this.lastMacroRegister = register;
+		this.resetPending();
+		this.changeRecording = null;
+		// Recorded in key notation, so a macro pasted, edited and yanked back runs as written.
+		const keys = parseKeyNotation(content.text, this.mapLeader);
+
+		this.macroDepth += 1;
+		this.commandFailed = false;
+		try {
+			for (let i = 0; i < Math.max(1, count) && !this.commandFailed; i++) {
+				this.runKeys(keys, true);
+			}
+		} finally {
+			this.macroDepth -= 1;
+		}
 	}
 
-	private deleteLinesUp(count: number): void {
-		const cursor = this.getCursor();
-		const startLine = Math.max(0, cursor.line - Math.max(1, count));
-		const linesToDelete = cursor.line - startLine + 1;
-		this.deleteLinesAt(startLine, linesToDelete);
+	/**
+	 * Abandon the current command. A failing command also stops macro playback.
+	 */
+	private failCommand(): void {
+		this.commandFailed = true;
+		this.resetPending();
 	}
 
 	private deleteLinesAt(startLine: number, count: number): void {
@@ -730,45 +2470,71 @@ class ModalEditor extends CustomEditor {
 		this.resetPending();
 	}
 
-	private enterInsertAtFirstNonBlank(): void {
+	private enterInsertAtFirstNonBlank(count: number): void {
 		const { line } = this.getCursor();
 		const currentLine = this.getLines()[line] ?? "";
 		const firstNonBlank = currentLine.search(/\S/);
-		this.send(SEQ.lineStart);
-		if (firstNonBlank > 0) {
-			this.send(SEQ.right, firstNonBlank);
-		}
-		this.mode = "insert";
-		this.resetPending();
+		this.moveCursorTo({ line, col: Math.max(0, firstNonBlank) });
+		this.startInsert(count);
 	}
 
-	private enterInsertAtLineEnd(): void {
+	private enterInsertAtLineEnd(count: number): void {
 		this.send(SEQ.lineEnd);
-		this.mode = "insert";
-		this.resetPending();
+		this.startInsert(count);
 	}
 
 	private openLineBelow(count: number): void {
+		const { line } = this.getCursor();
+		const lines = this.getLines();
+		lines.splice(line + 1, 0, "");
 		this.withTrackedEdit(() => {
-			for (let i = 0; i < count; i++) {
-				this.send(SEQ.lineEnd);
-				this.send(SEQ.newLine);
-			}
+			this.setTextAndMoveCursor(lines.join("\n"), { line: line + 1, col: 0 });
 		});
-		this.mode = "insert";
-		this.resetPending();
+		this.startInsert(count, true);
 	}
 
 	private openLineAbove(count: number): void {
+		const { line } = this.getCursor();
+		const lines = this.getLines();
+		lines.splice(line, 0, "");
 		this.withTrackedEdit(() => {
-			for (let i = 0; i < count; i++) {
-				this.send(SEQ.lineStart);
-				this.send(SEQ.newLine);
-				this.send(SEQ.up);
-			}
+			this.setTextAndMoveCursor(lines.join("\n"), { line, col: 0 });
 		});
+		this.startInsert(count, true);
+	}
+
+	/** Enters insert mode; with a count, Escape repeats what was typed, so 3ix<Esc> inserts "xxx". */
+	private startInsert(count: number, newLine = false): void {
 		this.mode = "insert";
 		this.resetPending();
+		this.insertRepeat =
+			count > 1 ? { count, newLine, before: this.getText(), start: this.posToIndex(this.getCursor()) } : null;
+	}
+
+	/**
+	 * Adds the remaining copies of a counted insert after the typed text. Skipped
+	 * when the text outside the insert changed, e.g. by deleting before its start.
+	 */
+	private finishInsertRepeat(): void {
+		const session = this.insertRepeat;
+		this.insertRepeat = null;
+		if (!session) {
+			return;
+		}
+
+		const text = this.getText();
+		const { before, start } = session;
+		const end = start + text.length - before.length;
+		if (end <= start || text.slice(0, start) !== before.slice(0, start) || text.slice(end) !== before.slice(start)) {
+			return;
+		}
+
+		const inserted = text.slice(start, end);
+		const copies = (session.newLine ? `\n${inserted}` : inserted).repeat(session.count - 1);
+		const nextText = text.slice(0, end) + copies + text.slice(end);
+		this.withTrackedEdit(() => {
+			this.setTextAndMoveCursor(nextText, this.indexToPos(nextText, end + copies.length));
+		});
 	}
 
 	private joinWithNextLine(count: number): void {
@@ -780,204 +2546,678 @@ class ModalEditor extends CustomEditor {
 					break;
 				}
 
-				const currentLine = lines[cursor.line] ?? "";
-				const nextLine = lines[cursor.line + 1] ?? "";
-				const shouldInsertSpace =
-					currentLine.length > 0 && nextLine.length > 0 && !/\s$/.test(currentLine) && !/^\s/.test(nextLine);
+				const currentLine = lines[cursor.line] ?? "";
+				const nextLine = lines[cursor.line + 1] ?? "";
+				const shouldInsertSpace =
+					currentLine.length > 0 && nextLine.length > 0 && !/\s$/.test(currentLine) && !/^\s/.test(nextLine);
+
+				this.send(SEQ.lineEnd);
+				this.send(SEQ.deleteToEnd);
+				if (shouldInsertSpace) {
+					this.send(" ");
+				}
+			}
+		});
+		this.resetPending();
+	}
+
+	/**
+	 * Insert or replace mode: typed text goes into the buffer and insert-mode mappings apply.
+	 */
+	private isInsertMode(): boolean {
+		return this.mode === "insert" || this.mode === "replace";
+	}
+
+	private isVisualMode(): boolean {
+		return this.mode === "visual" || this.mode === "visual-line" || this.mode === "visual-block";
+	}
+
+	private enterVisualMode(mode: "visual" | "visual-line" | "visual-block"): void {
+		this.mode = mode;
+		this.visualAnchor = this.getCursor();
+		this.visualBlockToLineEnd = false;
+		this.resetPending();
+	}
+
+	/**
+	 * v, V and Ctrl-V switch between visual kinds, or leave visual mode when
+	 * pressed in the kind that is already active.
+	 */
+	private switchVisualMode(mode: "visual" | "visual-line" | "visual-block"): void {
+		if (this.mode === mode) {
+			this.exitVisualMode();
+		} else {
+			this.mode = mode;
+		}
+		this.resetPending();
+	}
+
+	private exitVisualMode(): void {
+		const anchor = this.visualAnchor;
+		if (anchor) {
+			const cursor = this.getCursor();
+			const anchorOffset = this.posToIndex(anchor);
+			const cursorOffset = this.posToIndex(cursor);
+			this.marks.set("<", Math.min(anchorOffset, cursorOffset));
+			this.marks.set(">", Math.max(anchorOffset, cursorOffset));
+		}
+		this.mode = "normal";
+		this.visualAnchor = null;
+		this.visualBlockToLineEnd = false;
+	}
+
+	private getBlockBounds(): BlockBounds | null {
+		const anchor = this.visualAnchor;
+		if (!anchor) {
+			return null;
+		}
+		const cursor = this.getCursor();
+		const lines = this.getLines();
+		const cells = (pos: Pos): { start: number; end: number } => {
+			const lineText = lines[pos.line] ?? "";
+			const start = displayColumn(lineText, pos.col);
+			return { start, end: Math.max(start, displayColumn(lineText, nextGraphemeIndex(lineText, pos.col)) - 1) };
+		};
+		const anchorCells = cells(anchor);
+		const cursorCells = cells(cursor);
+		return {
+			top: Math.min(anchor.line, cursor.line),
+			bottom: Math.max(anchor.line, cursor.line),
+			left: Math.min(anchorCells.start, cursorCells.start),
+			right: Math.max(anchorCells.end, cursorCells.end),
+			toLineEnd: this.visualBlockToLineEnd,
+		};
+	}
+
+	/**
+	 * Column range [start, end) a block covers on one line, clipped to the line.
+	 * A wide character partly inside the block is taken whole.
+	 */
+	private blockColumns(block: BlockBounds, lineText: string): { start: number; end: number } {
+		const start = indexAtDisplayColumn(lineText, block.left, false);
+		const end = block.toLineEnd ? lineText.length : indexAtDisplayColumn(lineText, block.right + 1, true);
+		return { start, end: Math.max(start, end) };
+	}
+
+	private applyVisualOperator(operator: Operator, forceLinewise: boolean = false): void {
+		const anchor = this.visualAnchor;
+		const mode = this.mode;
+		const block = this.getBlockBounds();
+		const cursor = this.getCursor();
+		this.exitVisualMode();
+		if (!anchor || !block) {
+			this.resetPending();
+			return;
+		}
+
+		if (mode === "visual-block" && !forceLinewise) {
+			this.applyBlockOperator(operator, block);
+			return;
+		}
+		if (mode === "visual-line" || forceLinewise) {
+			this.applyLinewiseOperator(operator, block.top, block.bottom, { line: block.top, col: 0 });
+			return;
+		}
+		this.applyOperator(operator, anchor, cursor, "inclusive");
+	}
+
+	private applyBlockOperator(operator: Operator, block: BlockBounds): void {
+		const lines = this.getLines();
+		const topLeft = { line: block.top, col: this.blockColumns(block, lines[block.top] ?? "").start };
+		const bottomText = lines[block.bottom] ?? "";
+		const bottomColumns = this.blockColumns(block, bottomText);
+		const pieces: string[] = [];
+		for (let line = block.top; line <= block.bottom; line++) {
+			const lineText = lines[line] ?? "";
+			const { start, end } = this.blockColumns(block, lineText);
+			const piece = lineText.slice(start, end);
+			pieces.push(piece);
+			const replacement = isCaseOperator(operator) ? changeCase(piece, operator) : "";
+			lines[line] = lineText.slice(0, start) + replacement + lineText.slice(end);
+		}
+		if (!isCaseOperator(operator)) {
+			this.writeRegister(operator === "y" ? "yank" : "delete", pieces.join("\n"), "blockwise");
+		}
+
+		if (operator === "y") {
+			const bottomRight = {
+				line: block.bottom,
+				col: Math.max(bottomColumns.start, previousGraphemeIndex(bottomText, bottomColumns.end)),
+			};
+			this.markYanked(this.posToIndex(topLeft), this.posToIndex(bottomRight));
+			this.moveCursorTo(topLeft);
+			this.resetPending();
+			return;
+		}
+
+		this.withTrackedEdit(() => {
+			this.setTextAndMoveCursor(lines.join("\n"), topLeft);
+		});
+		if (operator === "c") {
+			this.beginBlockInsert({ ...block, toLineEnd: false }, block.left, false);
+		}
+		this.resetPending();
+	}
+
+	private startBlockInsert(append: boolean): void {
+		const block = this.getBlockBounds();
+		this.exitVisualMode();
+		this.resetPending();
+		if (!block) {
+			return;
+		}
+
+		const columns = this.blockColumns(block, this.getLines()[block.top] ?? "");
+		this.moveCursorTo({ line: block.top, col: append ? columns.end : columns.start });
+		this.beginBlockInsert(block, append && !block.toLineEnd ? block.right + 1 : block.left, append);
+	}
+
+	private beginBlockInsert(block: BlockBounds, col: number, append: boolean): void {
+		const lines = this.getLines();
+		this.blockInsert = {
+			top: block.top,
+			bottom: block.bottom,
+			col,
+			append,
+			toLineEnd: append && block.toLineEnd,
+			lineCount: lines.length,
+			before: lines[block.top] ?? "",
+		};
+		this.mode = "insert";
+	}
+
+	/**
+	 * Leaving insert mode after block I/A/c copies the text typed on the first
+	 * line of the block to the other lines.
+	 */
+	private finishBlockInsert(): void {
+		const session = this.blockInsert;
+		this.blockInsert = null;
+		if (!session) {
+			return;
+		}
+
+		const lines = this.getLines();
+		const firstLine = lines[session.top] ?? "";
+		const insertedLength = firstLine.length - session.before.length;
+		const col = session.toLineEnd ? session.before.length : indexAtDisplayColumn(session.before, session.col, session.append);
+		if (lines.length !== session.lineCount || insertedLength <= 0) {
+			return;
+		}
+		if (
+			firstLine.slice(0, col) !== session.before.slice(0, col) ||
+			firstLine.slice(col + insertedLength) !== session.before.slice(col)
+		) {
+			return;
+		}
+
+		const inserted = firstLine.slice(col, col + insertedLength);
+		const cursor = this.getCursor();
+		this.withTrackedEdit(() => {
+			for (let line = session.top + 1; line <= session.bottom; line++) {
+				const lineText = lines[line] ?? "";
+				const width = visibleWidth(lineText);
+				if (session.toLineEnd) {
+					lines[line] = lineText + inserted;
+				} else if (width >= session.col) {
+					const at = indexAtDisplayColumn(lineText, session.col, session.append);
+					lines[line] = lineText.slice(0, at) + inserted + lineText.slice(at);
+				} else if (session.append) {
+					lines[line] = lineText + " ".repeat(session.col - width) + inserted;
+				}
+			}
+			this.setTextAndMoveCursor(lines.join("\n"), { line: session.top, col: previousGraphemeIndex(firstLine, cursor.col) });
+		});
+	}
+
+	private replaceVisualSelection(char: string): void {
+		const mode = this.mode;
+		const anchor = this.visualAnchor;
+		const block = this.getBlockBounds();
+		const cursor = this.getCursor();
+		this.exitVisualMode();
+		this.resetPending();
+		if (!anchor || !block) {
+			return;
+		}
+
+		const lines = this.getLines();
+		const replaceColumns = (line: number, start: number, end: number): void => {
+			const lineText = lines[line] ?? "";
+			const from = Math.min(start, lineText.length);
+			const to = Math.min(Math.max(from, end), lineText.length);
+			lines[line] = lineText.slice(0, from) + char.repeat(countGraphemes(lineText.slice(from, to))) + lineText.slice(to);
+		};
+
+		if (mode === "visual-block") {
+			for (let line = block.top; line <= block.bottom; line++) {
+				const { start, end } = this.blockColumns(block, lines[line] ?? "");
+				replaceColumns(line, start, end);
+			}
+		} else if (mode === "visual-line") {
+			for (let line = block.top; line <= block.bottom; line++) {
+				replaceColumns(line, 0, (lines[line] ?? "").length);
+			}
+		}
+
+		const first = this.posToIndex(anchor) <= this.posToIndex(cursor) ? anchor : cursor;
+		const last = first === anchor ? cursor : anchor;
+		if (mode === "visual") {
+			for (let line = first.line; line <= last.line; line++) {
+				const start = line === first.line ? first.col : 0;
+				const end = line === last.line ? nextGraphemeIndex(lines[line] ?? "", last.col) : (lines[line] ?? "").length;
+				replaceColumns(line, start, end);
+			}
+		}
+
+		let target = first;
+		if (mode === "visual-line") {
+			target = { line: block.top, col: 0 };
+		} else if (mode === "visual-block") {
+			target = { line: block.top, col: this.blockColumns(block, lines[block.top] ?? "").start };
+		}
+		this.withTrackedEdit(() => {
+			this.setTextAndMoveCursor(lines.join("\n"), target);
+		});
+	}
+
+	/**
+	 * r{char}: replace `count` characters from the cursor, leaving the cursor on the
+	 * last one. Fails when the line is too short; r<CR> puts one line break in their place.
+	 */
+	private replaceCharacters(char: string, count: number): void {
+		const cursor = this.getCursor();
+		const lines = this.getLines();
+		const lineText = lines[cursor.line] ?? "";
+		if (countGraphemes(lineText.slice(cursor.col)) < count) {
+			this.failCommand();
+			return;
+		}
+
+		const lineBreak = matchesKey(char, "enter");
+		const end = advanceGraphemes(lineText, cursor.col, count);
+		lines[cursor.line] = lineText.slice(0, cursor.col) + (lineBreak ? "\n" : char.repeat(count)) + lineText.slice(end);
+		const target = lineBreak ? { line: cursor.line + 1, col: 0 } : { line: cursor.line, col: cursor.col + char.length * (count - 1) };
+		this.withTrackedEdit(() => {
+			this.setTextAndMoveCursor(lines.join("\n"), target);
+		});
+		this.resetPending();
+	}
+
+	/**
+	 * ~: switch the case of `count` characters from the cursor and move past them,
+	 * without leaving the line.
+	 */
+	private toggleCaseAtCursor(count: number): void {
+		const cursor = this.getCursor();
+		const lines = this.getLines();
+		const lineText = lines[cursor.line] ?? "";
+		this.resetPending();
+		if (cursor.col >= lineText.length) {
+			return;
+		}
+
+		const end = advanceGraphemes(lineText, cursor.col, count);
+		lines[cursor.line] = lineText.slice(0, cursor.col) + changeCase(lineText.slice(cursor.col, end), "g~") + lineText.slice(end);
+		const target = end < lineText.length ? end : previousGraphemeIndex(lineText, lineText.length);
+		this.withTrackedEdit(() => {
+			this.setTextAndMoveCursor(lines.join("\n"), { line: cursor.line, col: target });
+		});
+	}
+
+	/**
+	 * Replace mode (R): typed characters overwrite the ones under the cursor (and
+	 * extend the line at its end); Backspace puts the overwritten characters back.
+	 */
+	private handleReplaceInput(data: string): void {
+		if (matchesKey(data, "backspace")) {
+			const original = this.replacedChars.pop();
+			if (original === undefined) {
+				this.send(SEQ.left);
+				return;
+			}
+			this.withTrackedEdit(() => {
+				this.send(SEQ.left);
+				this.send(SEQ.deleteCharForward);
+				if (original !== null) {
+					this.send(original);
+					this.send(SEQ.left);
+				}
+			});
+			return;
+		}
+
+		if (!isCharKey(data)) {
+			// Moving around or submitting ends what Backspace can restore.
+			this.replacedChars = [];
+			this.withTrackedEdit(() => {
+				this.send(data);
+			});
+			return;
+		}
 
-				this.send(SEQ.lineEnd);
-				this.send(SEQ.deleteToEnd);
-				if (shouldInsertSpace) {
-					super.handleInput(" ");
-				}
+		const cursor = this.getCursor();
+		const lineText = this.getLines()[cursor.line] ?? "";
+		const original = cursor.col < lineText.length ? lineText.slice(cursor.col, nextGraphemeIndex(lineText, cursor.col)) : null;
+		this.withTrackedEdit(() => {
+			if (original !== null) {
+				this.send(SEQ.deleteCharForward);
 			}
+			this.send(data);
 		});
-		this.resetPending();
+		this.replacedChars.push(original);
 	}
 
-	private deleteVisualSelection(): void {
-		const anchor = this.visualAnchor;
-		if (!anchor) {
-			this.mode = "normal";
+	private applyPrefixCommand(key: string): void {
+		const prefix = this.pendingPrefix;
+		this.pendingPrefix = null;
+
+		if (prefix === "g" && (key === "~" || key === "u" || key === "U")) {
+			const operator: CaseOperator = `g${key}`;
+			if (this.pendingOperator) {
+				// g~g~, gugu and gUgU are the linewise forms.
+				this.handleOperatorInput(this.pendingOperator === operator ? key : "");
+			} else if (this.isVisualMode()) {
+				this.applyVisualOperator(operator);
+			} else {
+				this.pendingOperator = operator;
+				this.pendingOperatorCount = this.consumeCount();
+			}
+			return;
+		}
+
+		if (prefix === "g" && (key === "e" || key === "E")) {
+			if (this.pendingOperator) {
+				this.handleOperatorInput(`g${key}`);
+				return;
+			}
+			this.moveByMotion(`g${key}`, this.consumeCount());
 			this.resetPending();
 			return;
 		}
 
-		this.withTrackedEdit(() => {
-			const cursor = this.getCursor();
-			const lines = this.getLines();
-			const fullText = lines.join("\n");
+		if (prefix === "\x18" && key === "\x05" && !this.pendingOperator && !this.isVisualMode()) {
+			this.editInExternalEditor();
+			return;
+		}
 
-			let startIndex = this.posToIndex(lines, anchor);
-			let endIndex = this.posToIndex(lines, cursor);
+		if (this.pendingOperator || this.isVisualMode()) {
+			this.resetPending();
+			return;
+		}
 
-			if (endIndex < startIndex) {
-				[startIndex, endIndex] = [endIndex, startIndex];
-			}
-			endIndex = Math.min(fullText.length, endIndex + 1);
+		if (prefix === "g" && (key === "-" || key === "+")) {
+			const count = this.consumeCount();
+			this.applyUndoStep(this.undoTree.step(key === "-" ? -count : count));
+			return;
+		}
 
-			const nextText = fullText.slice(0, startIndex) + fullText.slice(endIndex);
-			const nextPos = this.indexToPos(nextText, startIndex);
-			this.setTextAndMoveCursor(nextText, nextPos);
-		});
+		if (key === "p" || key === "P") {
+			this.pasteRegister({
+				before: key === "P" || prefix === "[",
+				count: this.consumeCount(),
+				cursorAfter: prefix === "g",
+				adjustIndent: prefix === "]" || prefix === "[",
+			});
+			return;
+		}
 
-		this.mode = "normal";
-		this.visualAnchor = null;
 		this.resetPending();
 	}
 
-	private copyCurrentLine(): void {
-		const cursor = this.getCursor();
-		const lineText = this.getLines()[cursor.line] ?? "";
-		this.writeClipboard(lineText);
-	}
-
-	private copyVisualSelection(linewise: boolean): void {
-		const anchor = this.visualAnchor;
-		if (!anchor) {
-			this.mode = "normal";
-			this.resetPending();
+	/**
+	 * Ctrl-X Ctrl-E: edit the text in $VISUAL or $EDITOR, opened at the cursor line
+	 * where the editor takes +N, with the TUI stopped meanwhile. The result comes back as one undoable change;
+	 * when the editor fails or exits non-zero the text is left alone.
+	 */
+	private editInExternalEditor(): void {
+		this.resetPending();
+		const command = process.env.VISUAL || process.env.EDITOR;
+		if (!command) {
+			this.showError("No editor configured: set $VISUAL or $EDITOR");
 			return;
 		}
 
-		const lines = this.getLines();
 		const cursor = this.getCursor();
-		if (linewise) {
-			const startLine = Math.min(anchor.line, cursor.line);
-			const endLine = Math.max(anchor.line, cursor.line);
-			this.writeClipboard(lines.slice(startLine, endLine + 1).join("\n"));
-		} else {
-			const fullText = lines.join("\n");
-			let startIndex = this.posToIndex(lines, anchor);
-			let endIndex = this.posToIndex(lines, cursor);
-			if (endIndex < startIndex) {
-				[startIndex, endIndex] = [endIndex, startIndex];
+		const file = join(tmpdir(), `pi-vim-${process.pid}-${Date.now()}.md`);
+		// Like pi's own external editor: arguments split on spaces (e.g. "code --wait").
+		const [program, ...args] = command.split(" ");
+		try {
+			writeFileSync(file, this.getText(), "utf-8");
+		} catch (writeError) {
+			this.showError(`${file}: ${(writeError as Error).message}`);
+			return;
+		}
+
+		let error: string | null = null;
+		let edited: string | null = null;
+		this.restoreCursorShape();
+		this.tui.stop();
+		try {
+			const lineArgs = LINE_ARGUMENT_EDITORS.has(basename(program!)) ? [`+${cursor.line + 1}`] : [];
+			const result = spawnSync(program!, [...args, ...lineArgs, file], { stdio: "inherit" });
+			if (result.error) {
+				error = `${program}: ${result.error.message}`;
+			} else if (result.status !== 0) {
+				error = `${program} exited with ${result.status ?? result.signal}`;
+			} else {
+				edited = readFileSync(file, "utf-8").replace(/\n$/, "");
+			}
+		} catch (readError) {
+			error = `${file}: ${(readError as Error).message}`;
+		} finally {
+			try {
+				unlinkSync(file);
+			} catch {
+				// The editor may have moved or removed it.
 			}
-			endIndex = Math.min(fullText.length, endIndex + 1);
-			this.writeClipboard(fullText.slice(startIndex, endIndex));
+			this.tui.start();
+			this.tui.requestRender(true);
 		}
 
-		this.mode = "normal";
-		this.visualAnchor = null;
-		this.resetPending();
+		if (error !== null) {
+			this.showError(error);
+			return;
+		}
+		if (edited !== null) {
+			this.withTrackedEdit(() => {
+				this.setTextAndMoveCursor(edited, cursor);
+			});
+		}
 	}
 
-	private pasteAtCursor(): void {
-		const clipboardText = this.readClipboardText() ?? this.clipboardFallback;
-		if (!clipboardText) {
+	/**
+	 * p/P and their gp/gP/]p/[p variants. Linewise registers paste on new lines below
+	 * (or above) the cursor, charwise registers after (or before) the cursor, blockwise
+	 * registers as a column starting at the cursor.
+	 */
+	private pasteRegister(options: PasteOptions): void {
+		const content = this.readRegister();
+		if (!content || content.text.length === 0) {
 			this.resetPending();
 			return;
 		}
 
 		this.withTrackedEdit(() => {
-			const cursor = this.getCursor();
-			const lines = this.getLines();
-			const fullText = lines.join("\n");
-			const lineText = lines[cursor.line] ?? "";
-			let insertIndex = this.posToIndex(lines, cursor);
-			if (cursor.col < lineText.length) {
-				insertIndex += 1;
+			if (content.type === "linewise") {
+				this.pasteLines(content.text, options);
+			} else if (content.type === "blockwise") {
+				this.pasteBlock(content.text, options);
+			} else {
+				this.pasteCharacters(content.text, options);
 			}
-
-			const nextText = fullText.slice(0, insertIndex) + clipboardText + fullText.slice(insertIndex);
-			const cursorIndex = insertIndex + Math.max(0, clipboardText.length - 1);
-			this.setTextAndMoveCursor(nextText, this.indexToPos(nextText, cursorIndex));
 		});
 		this.resetPending();
 	}
 
-	private pasteOverVisualSelection(): void {
+	private pasteCharacters(text: string, options: PasteOptions): void {
+		const cursor = this.getCursor();
+		const lines = this.getLines();
+		const fullText = lines.join("\n");
+		const lineText = lines[cursor.line] ?? "";
+		let insertIndex = this.posToIndex(cursor);
+		if (!options.before && cursor.col < lineText.length) {
+			insertIndex = nextGraphemeIndex(fullText, insertIndex);
+		}
+
+		const pasted = text.repeat(options.count);
+		const nextText = fullText.slice(0, insertIndex) + pasted + fullText.slice(insertIndex);
+		const cursorIndex = options.cursorAfter
+			? insertIndex + pasted.length
+			: Math.max(insertIndex, previousGraphemeIndex(nextText, insertIndex + pasted.length));
+		this.setTextAndMoveCursor(nextText, this.indexToPos(nextText, cursorIndex));
+	}
+
+	private pasteLines(text: string, options: PasteOptions): void {
+		const cursor = this.getCursor();
+		const lines = this.getLines();
+		let pasted = Array.from({ length: options.count }, () => text.split("\n")).flat();
+		if (options.adjustIndent) {
+			pasted = reindentLines(pasted, (lines[cursor.line] ?? "").match(/^\s*/)?.[0] ?? "");
+		}
+
+		const insertLine = options.before ? cursor.line : cursor.line + 1;
+		lines.splice(insertLine, 0, ...pasted);
+		const nextText = lines.join("\n");
+		if (options.cursorAfter) {
+			this.setTextAndMoveCursor(nextText, { line: insertLine + pasted.length, col: 0 });
+			return;
+		}
+		const firstNonBlank = Math.max(0, (pasted[0] ?? "").search(/\S/));
+		this.setTextAndMoveCursor(nextText, { line: insertLine, col: firstNonBlank });
+	}
+
+	private pasteBlock(text: string, options: PasteOptions): void {
+		const cursor = this.getCursor();
+		const lines = this.getLines();
+		const rows = text.split("\n");
+		const width = Math.max(...rows.map((row) => visibleWidth(row)));
+		const currentLine = lines[cursor.line] ?? "";
+		const index = !options.before && cursor.col < currentLine.length ? nextGraphemeIndex(currentLine, cursor.col) : cursor.col;
+		// Rows go in at the same display column on every line.
+		const column = displayColumn(currentLine, index);
+
+		rows.forEach((row, rowIndex) => {
+			const line = cursor.line + rowIndex;
+			while (lines.length <= line) {
+				lines.push("");
+			}
+			const lineText = lines[line]! + " ".repeat(Math.max(0, column - visibleWidth(lines[line]!)));
+			const at = indexAtDisplayColumn(lineText, column, false);
+			const rest = lineText.slice(at);
+			const piece = Array.from({ length: options.count }, () => row + " ".repeat(width - visibleWidth(row))).join("");
+			lines[line] = lineText.slice(0, at) + (rest.length > 0 ? piece : piece.trimEnd()) + rest;
+		});
+
+		const lastLine = cursor.line + rows.length - 1;
+		const cursorPos = options.cursorAfter
+			? { line: lastLine, col: indexAtDisplayColumn(lines[lastLine]!, column + width * options.count, false) }
+			: { line: cursor.line, col: index };
+		this.setTextAndMoveCursor(lines.join("\n"), cursorPos);
+	}
+
+	private pasteOverVisualSelection(keepRegister: boolean = false): void {
 		const anchor = this.visualAnchor;
-		const clipboardText = this.readClipboardText() ?? this.clipboardFallback;
-		if (!anchor || !clipboardText) {
-			this.mode = "normal";
-			this.visualAnchor = null;
+		const mode = this.mode;
+		const block = this.getBlockBounds();
+		const cursor = this.getCursor();
+		const content = this.readRegister();
+		this.exitVisualMode();
+		if (keepRegister) {
+			this.activeRegister = "_";
+		}
+		if (!anchor || !block || !content?.text) {
 			this.resetPending();
 			return;
 		}
 
 		this.withTrackedEdit(() => {
-			const cursor = this.getCursor();
 			const lines = this.getLines();
-			const fullText = lines.join("\n");
-
-			let startIndex = this.posToIndex(lines, anchor);
-			let endIndex = this.posToIndex(lines, cursor);
-			if (endIndex < startIndex) {
-				[startIndex, endIndex] = [endIndex, startIndex];
+			let startIndex: number;
+			let endIndex: number;
+
+			if (mode === "visual-block") {
+				const pieces: string[] = [];
+				const topStart = this.blockColumns(block, lines[block.top] ?? "").start;
+				for (let line = block.top; line <= block.bottom; line++) {
+					const lineText = lines[line] ?? "";
+					const { start, end } = this.blockColumns(block, lineText);
+					pieces.push(lineText.slice(start, end));
+					lines[line] = lineText.slice(0, start) + lineText.slice(end);
+				}
+				this.writeRegister("delete", pieces.join("\n"), "blockwise");
+				// Only lines from the top of the block changed, so the editor's offsets still hold.
+				startIndex = this.posToIndex({ line: block.top, col: topStart });
+				endIndex = startIndex;
+			} else if (mode === "visual-line") {
+				startIndex = this.posToIndex({ line: block.top, col: 0 });
+				endIndex = this.posToIndex({ line: block.bottom, col: (lines[block.bottom] ?? "").length });
+				this.writeRegister("delete", lines.slice(block.top, block.bottom + 1).join("\n"), "linewise");
+			} else {
+				startIndex = this.posToIndex(anchor);
+				endIndex = this.posToIndex(cursor);
+				if (endIndex < startIndex) {
+					[startIndex, endIndex] = [endIndex, startIndex];
+				}
+				endIndex = nextGraphemeIndex(lines.join("\n"), endIndex);
 			}
-			endIndex = Math.min(fullText.length, endIndex + 1);
 
-			const nextText = fullText.slice(0, startIndex) + clipboardText + fullText.slice(endIndex);
-			const cursorIndex = startIndex + Math.max(0, clipboardText.length - 1);
+			const fullText = lines.join("\n");
+			if (mode === "visual") {
+				this.writeRegister("delete", fullText.slice(startIndex, endIndex), "charwise");
+			}
+			// Linewise text replacing part of a line still goes on lines of its own.
+			const pasted = content.type === "linewise" && mode === "visual" ? `\n${content.text}\n` : content.text;
+			const nextText = fullText.slice(0, startIndex) + pasted + fullText.slice(endIndex);
+			const cursorIndex = Math.max(startIndex, previousGraphemeIndex(nextText, startIndex + pasted.length));
 			this.setTextAndMoveCursor(nextText, this.indexToPos(nextText, cursorIndex));
 		});
 
-		this.mode = "normal";
-		this.visualAnchor = null;
 		this.resetPending();
 	}
 
-	private writeClipboard(text: string): void {
-		this.clipboardFallback = text;
-		copyToClipboard(text);
+	private writeRegister(operation: RegisterOperation, text: string, type: RegisterType): void {
+		this.registers.write(this.activeRegister, operation, { text, type });
 	}
 
-	private readClipboardText(): string | null {
-		try {
-			if (process.platform === "darwin") {
-				return execSync("pbpaste", { encoding: "utf8", timeout: 5000 });
-			}
-			if (process.platform === "win32") {
-				return execSync("powershell -NoProfile -Command Get-Clipboard", { encoding: "utf8", timeout: 5000 });
-			}
-			if (process.env.TERMUX_VERSION) {
-				try {
-					return execSync("termux-clipboard-get", { encoding: "utf8", timeout: 5000 });
-				} catch {
-					// fall through
-				}
-			}
-			if (process.env.WAYLAND_DISPLAY || process.env.XDG_SESSION_TYPE === "wayland") {
-				try {
-					return execSync("wl-paste --no-newline", { encoding: "utf8", timeout: 5000 });
-				} catch {
-					// fall through
-				}
-			}
-			try {
-				return execSync("xclip -selection clipboard -o", { encoding: "utf8", timeout: 5000 });
-			} catch {
-				return execSync("xsel --clipboard --output", { encoding: "utf8", timeout: 5000 });
-			}
-		} catch {
-			return null;
-		}
+	private readRegister(): RegisterContent | null {
+		const content = this.registers.read(this.activeRegister);
+		return content && { ...content, text: printableText(content.text) };
 	}
 
-	private undo(): void {
-		const previous = this.undoHistory.pop();
-		if (!previous) {
-			this.resetPending();
+	/**
+	 * Fetch the clipboard for "+ / "* and then run `then`. The TUI keeps running
+	 * while it is read; keys typed meanwhile wait so they still see the fresh text.
+	 * Macros and "." go on with the cached text rather than wait.
+	 */
+	private readClipboard(then: () => void = () => {}): void {
+		const refresh = this.macroDepth > 0 || this.repeatingChange ? null : this.clipboard.refresh();
+		if (!refresh) {
+			then();
 			return;
 		}
-		this.redoHistory.push(this.captureSnapshot());
-		this.restoreSnapshot(previous);
-		this.mode = "normal";
-		this.visualAnchor = null;
-		this.resetPending();
+		this.clipboardRead = refresh.then(() => {
+			this.clipboardRead = null;
+			then();
+			this.resolveTypeahead(false);
+			this.tui.requestRender();
+		});
+	}
+
+	private undo(): void {
+		this.applyUndoStep(this.undoTree.undo());
 	}
 
 	private redo(): void {
-		const next = this.redoHistory.pop();
-		if (!next) {
-			this.resetPending();
-			return;
+		this.applyUndoStep(this.undoTree.redo());
+	}
+
+	private applyUndoStep(step: UndoStep<Snapshot> | null): void {
+		if (step) {
+			this.restoreSnapshot(step.state);
+			this.mode = "normal";
+			this.visualAnchor = null;
 		}
-		this.undoHistory.push(this.captureSnapshot());
-		this.restoreSnapshot(next);
-		this.mode = "normal";
-		this.visualAnchor = null;
 		this.resetPending();
 	}
 
@@ -1009,8 +3249,11 @@ class ModalEditor extends CustomEditor {
 				}
 				const after = this.captureSnapshot();
 				if (before.text !== after.text) {
-					this.undoHistory.push(before);
-					this.redoHistory = [];
+					this.undoTree.record(before, after, (a, b) => a.text === b.text);
+					const change = diffText(before.text, after.text);
+					this.marks.applyChange(change);
+					this.jumps.applyChange(change);
+					this.changeTick += 1;
 				}
 			}
 		}
@@ -1069,37 +3312,78 @@ class ModalEditor extends CustomEditor {
 		return segments;
 	}
 
-	private getLineOffsets(lines: string[]): number[] {
+	/**
+	 * Line start offsets of the editor's text.
+	 */
+	private getLineOffsets(): number[] {
+		if (this.lineOffsetCache?.version === this.textVersion) {
+			return this.lineOffsetCache.offsets;
+		}
 		const offsets: number[] = [];
 		let offset = 0;
-		for (let i = 0; i < lines.length; i++) {
+		for (const line of (this as unknown as EditorInternals).state.lines) {
 			offsets.push(offset);
-			offset += (lines[i] ?? "").length;
-			offset += 1;
+			offset += line.length + 1;
 		}
+		this.lineOffsetCache = { version: this.textVersion, offsets };
 		return offsets;
 	}
 
-	private getVisualSelectionRange(lines: string[]): { start: number; end: number } | null {
-		if (this.mode !== "visual" || !this.visualAnchor) {
-			return null;
+	private getVisualSelectionRanges(lines: string[]): HighlightRange[] {
+		const anchor = this.visualAnchor;
+		if (!this.isVisualMode() || !anchor) {
+			return [];
 		}
+
 		const cursor = this.getCursor();
+		const offsets = this.getLineOffsets();
+		if (this.mode === "visual-line") {
+			const top = Math.min(anchor.line, cursor.line);
+			const bottom = Math.max(anchor.line, cursor.line);
+			const start = offsets[top] ?? 0;
+			const end = (offsets[bottom] ?? 0) + (lines[bottom] ?? "").length;
+			return [{ start, end, style: SELECTION_STYLE }];
+		}
+
+		if (this.mode === "visual-block") {
+			const block = this.getBlockBounds();
+			if (!block) {
+				return [];
+			}
+			const ranges: HighlightRange[] = [];
+			for (let line = block.top; line <= block.bottom; line++) {
+				const { start, end } = this.blockColumns(block, lines[line] ?? "");
+				const offset = offsets[line] ?? 0;
+				ranges.push({ start: offset + start, end: offset + end, style: SELECTION_STYLE });
+			}
+			return ranges;
+		}
+
 		const fullLen = lines.join("\n").length;
-		const a = this.posToIndex(lines, this.visualAnchor);
-		const c = this.posToIndex(lines, cursor);
+		const a = this.posToIndex(anchor);
+		const c = this.posToIndex(cursor);
 		const start = Math.min(a, c);
-		const end = Math.min(fullLen, Math.max(a, c) + 1);
-		return { start, end };
+		const end = Math.min(fullLen, nextGraphemeIndex(lines.join("\n"), Math.max(a, c)));
+		return [{ start, end, style: SELECTION_STYLE }];
 	}
 
-	private applyVisualHighlight(
-		text: string,
-		segment: LayoutSegment,
-		lineOffsets: number[],
-		range: { start: number; end: number } | null,
-	): string {
-		if (!range) {
+	private getSearchHighlightRanges(lines: string[]): HighlightRange[] {
+		if (this.isInsertMode()) {
+			return [];
+		}
+		const typed = this.commandLine && this.commandLine.prefix !== ":" ? this.commandLine.text : null;
+		const pattern = typed ?? (this.searchHighlight ? this.lastSearch?.pattern : null);
+		const regex = pattern ? compileSearchPattern(pattern, this.getSearchOptions()) : null;
+		if (!regex) {
+			return [];
+		}
+		return findMatches(lines.join("\n"), regex)
+			.filter((match) => match.end > match.start)
+			.map((match) => ({ ...match, style: SEARCH_MATCH_STYLE }));
+	}
+
+	private applyHighlights(text: string, segment: LayoutSegment, lineOffsets: number[], ranges: HighlightRange[]): string {
+		if (ranges.length === 0) {
 			return text;
 		}
 
@@ -1107,18 +3391,39 @@ class ModalEditor extends CustomEditor {
 		const segmentStart = lineOffset + segment.startCol;
 		const segmentEnd = lineOffset + segment.endCol;
 
-		const overlapStart = Math.max(segmentStart, range.start);
-		const overlapEnd = Math.min(segmentEnd, range.end);
-		if (overlapStart >= overlapEnd) {
+		const overlapping = ranges.filter((range) => range.start < segmentEnd && range.end > segmentStart);
+		if (overlapping.length === 0) {
 			return text;
 		}
 
-		const localStart = overlapStart - segmentStart;
-		const localEnd = overlapEnd - segmentStart;
-		return `${text.slice(0, localStart)}\x1b[7m${text.slice(localStart, localEnd)}\x1b[0m${text.slice(localEnd)}`;
+		// Never split a grapheme between two styles.
+		const boundaries = new Set([0, text.length]);
+		for (const range of overlapping) {
+			const end = Math.max(0, Math.min(text.length, range.end - segmentStart));
+			boundaries.add(graphemeStart(text, Math.max(0, Math.min(text.length, range.start - segmentStart))));
+			boundaries.add(graphemeStart(text, end) === end ? end : nextGraphemeIndex(text, end));
+		}
+		const points = [...boundaries].sort((a, b) => a - b);
+
+		let result = "";
+		for (let i = 0; i < points.length - 1; i++) {
+			const from = points[i]!;
+			const to = points[i + 1]!;
+			const piece = text.slice(from, to);
+			const styles = overlapping
+				.filter((range) => range.start - segmentStart <= from && range.end - segmentStart >= to)
+				.map((range) => range.style);
+			result += styles.length > 0 ? `\x1b[${[...new Set(styles)].join(";")}m${piece}\x1b[0m` : piece;
+		}
+		return result;
 	}
 
-	private insertMarkerAtCursorColumn(text: string, cursorCol: number, plainLength: number): string {
+	private insertMarkerAtCursorColumn(
+		text: string,
+		cursorCol: number,
+		plainLength: number,
+		marker: string = CURSOR_MARKER,
+	): string {
 		const clampedCol = Math.max(0, Math.min(cursorCol, plainLength));
 		let textIndex = 0;
 		let plainIndex = 0;
@@ -1135,23 +3440,27 @@ class ModalEditor extends CustomEditor {
 			plainIndex += 1;
 		}
 
-		return `${text.slice(0, textIndex)}${CURSOR_MARKER}${text.slice(textIndex)}`;
+		return `${text.slice(0, textIndex)}${marker}${text.slice(textIndex)}`;
 	}
 
-	private renderVisualMode(width: number): string[] {
+	/**
+	 * Custom renderer used whenever text needs highlighting (visual selection,
+	 * search matches) or the command line owns the cursor.
+	 */
+	private renderHighlighted(width: number): string[] {
 		const maxPadding = Math.max(0, Math.floor((width - 1) / 2));
 		const paddingX = Math.min(this.getPaddingX(), maxPadding);
 		const contentWidth = Math.max(1, width - paddingX * 2);
 		const layoutWidth = Math.max(1, contentWidth - (paddingX ? 0 : 1));
 
-		// Keep Editor's internal wrap width in sync while visual mode uses a custom renderer.
+		// Keep Editor's internal wrap width in sync while the custom renderer is active.
 		// Cursor movement handlers (up/down, page keys, etc.) depend on this value.
-		(this as unknown as { lastWidth: number }).lastWidth = layoutWidth;
+		(this as unknown as EditorInternals).lastWidth = layoutWidth;
 
 		const segments = this.buildWrappedSegments(layoutWidth);
 		const cursorLineIndex = Math.max(0, segments.findIndex((segment) => segment.hasCursor));
 
-		const maxVisibleLines = Math.max(5, Math.floor(this.tui.terminal.rows * 0.3));
+		const maxVisibleLines = this.getMaxVisibleLines();
 		if (cursorLineIndex < this.visualScrollOffset) {
 			this.visualScrollOffset = cursorLineIndex;
 		} else if (cursorLineIndex >= this.visualScrollOffset + maxVisibleLines) {
@@ -1163,8 +3472,8 @@ class ModalEditor extends CustomEditor {
 
 		const visibleSegments = segments.slice(this.visualScrollOffset, this.visualScrollOffset + maxVisibleLines);
 		const lines = this.getLines();
-		const offsets = this.getLineOffsets(lines);
-		const selection = this.getVisualSelectionRange(lines);
+		const offsets = this.getLineOffsets();
+		const ranges = [...this.getSearchHighlightRanges(lines), ...this.getVisualSelectionRanges(lines)];
 
 		const result: string[] = [];
 		const leftPadding = " ".repeat(paddingX);
@@ -1179,11 +3488,18 @@ class ModalEditor extends CustomEditor {
 			result.push(horizontal.repeat(width));
 		}
 
-		const emitCursorMarker = this.focused;
+		const emitCursorMarker = this.focused && !this.commandLine;
+		const pendingInsert = this.getPendingInsertText();
 		for (const segment of visibleSegments) {
-			let highlighted = this.applyVisualHighlight(segment.text, segment, offsets, selection);
-			if (emitCursorMarker && segment.hasCursor) {
-				highlighted = this.insertMarkerAtCursorColumn(highlighted, segment.cursorPos ?? 0, segment.text.length);
+			let highlighted = this.applyHighlights(segment.text, segment, offsets, ranges);
+			if (segment.hasCursor && (emitCursorMarker || pendingInsert)) {
+				// Keys held back by an insert-mode mapping (e.g. the j of jk) show at the cursor.
+				const pending = pendingInsert ? `\x1b[${PENDING_INSERT_STYLE}m${pendingInsert}\x1b[0m` : "";
+				const marker = `${emitCursorMarker ? CURSOR_MARKER : ""}${pending}`;
+				highlighted = this.insertMarkerAtCursorColumn(highlighted, segment.cursorPos ?? 0, segment.text.length, marker);
+				if (pendingInsert) {
+					highlighted = truncateToWidth(highlighted, contentWidth, "");
+				}
 			}
 			const lineWidth = visibleWidth(highlighted);
 			const padding = " ".repeat(Math.max(0, contentWidth - lineWidth));
@@ -1202,72 +3518,107 @@ class ModalEditor extends CustomEditor {
 		return result;
 	}
 
-	private posToIndex(lines: string[], pos: Pos): number {
-		let idx = 0;
-		for (let i = 0; i < pos.line; i++) {
-			idx += (lines[i] ?? "").length;
-			idx += 1;
-		}
-		return idx + pos.col;
+	/**
+	 * Draw the active command-line prompt (e.g. "/pattern") over the bottom border.
+	 */
+	private renderCommandLine(width: number): string {
+		const line = this.commandLine;
+		if (!line) {
+			return "";
+		}
+		const cursor = this.focused ? CURSOR_MARKER : "";
+		const text = `${line.prefix}${line.text.slice(0, line.cursor)}${cursor}${line.text.slice(line.cursor)}`;
+		const prompt = truncateToWidth(text, Math.max(0, width - 1), "");
+		return `${prompt}${this.borderColor("─".repeat(Math.max(0, width - visibleWidth(prompt))))}`;
+	}
+
+	/**
+	 * Offset of `pos` in the editor's text.
+	 */
+	private posToIndex(pos: Pos): number {
+		const lines = (this as unknown as EditorInternals).state.lines;
+		const offsets = this.getLineOffsets();
+		if (pos.line <= 0) {
+			return pos.col;
+		}
+		if (pos.line < lines.length) {
+			return offsets[pos.line]! + pos.col;
+		}
+		// Past the last line, each missing line counts as empty.
+		const end = offsets[lines.length - 1]! + lines[lines.length - 1]!.length + 1;
+		return end + pos.line - lines.length + pos.col;
 	}
 
 	private indexToPos(text: string, index: number): Pos {
 		const clamped = Math.max(0, Math.min(index, text.length));
-		const lines = text.split("\n");
-		let remaining = clamped;
-		for (let line = 0; line < lines.length; line++) {
-			const len = (lines[line] ?? "").length;
-			if (remaining <= len) {
-				return { line, col: remaining };
-			}
-			remaining -= len + 1;
+		let line = 0;
+		let lineStart = 0;
+		for (let newline = text.indexOf("\n"); newline >= 0 && newline < clamped; newline = text.indexOf("\n", newline + 1)) {
+			line += 1;
+			lineStart = newline + 1;
 		}
-		const lastLine = Math.max(0, lines.length - 1);
-		return { line: lastLine, col: (lines[lastLine] ?? "").length };
+		return { line, col: clamped - lineStart };
 	}
 
-	private moveCursorTo(pos: Pos): void {
+	/**
+	 * j / k: move by logical lines, aiming for the same display column.
+	 */
+	private moveCursorVertically(delta: number): void {
+		const cursor = this.getCursor();
 		const lines = this.getLines();
-		const maxLine = Math.max(0, lines.length - 1);
-		const targetLine = Math.max(0, Math.min(pos.line, maxLine));
-		const targetCol = Math.max(0, Math.min(pos.col, (lines[targetLine] ?? "").length));
+		const targetLine = Math.max(0, Math.min(cursor.line + delta, lines.length - 1));
+		const kept = this.verticalColumn;
+		const column =
+			kept && kept.line === cursor.line && kept.col === cursor.col
+				? kept.column
+				: displayColumn(lines[cursor.line] ?? "", cursor.col);
+		const col = indexAtDisplayColumn(lines[targetLine] ?? "", column, false);
+		this.moveCursorTo({ line: targetLine, col });
+		this.verticalColumn = { line: targetLine, col, column };
+	}
 
-		const current = this.getCursor();
-		if (current.line > targetLine) this.send(SEQ.up, current.line - targetLine);
-		if (current.line < targetLine) this.send(SEQ.down, targetLine - current.line);
-		this.send(SEQ.lineStart);
-		this.send(SEQ.right, targetCol);
+	private moveCursorTo(pos: Pos): void {
+		const editor = this as unknown as EditorInternals;
+		const lines = editor.state.lines;
+		const targetLine = Math.max(0, Math.min(pos.line, lines.length - 1));
+		const lineText = lines[targetLine] ?? "";
+		editor.lastAction = null;
+		editor.state.cursorLine = targetLine;
+		editor.setCursorCol(graphemeStart(lineText, Math.max(0, Math.min(pos.col, lineText.length))));
 	}
 
 	private setTextAndMoveCursor(text: string, pos: Pos): void {
 		this.setText(text);
-		const lines = this.getLines();
-		const maxLine = Math.max(0, lines.length - 1);
-		const targetLine = Math.max(0, Math.min(pos.line, maxLine));
-		const targetCol = Math.max(0, Math.min(pos.col, (lines[targetLine] ?? "").length));
-
-		const current = this.getCursor();
-		this.send(SEQ.lineStart);
-		if (current.line > targetLine) {
-			this.send(SEQ.up, current.line - targetLine);
-		} else if (current.line < targetLine) {
-			this.send(SEQ.down, targetLine - current.line);
-		}
-		this.send(SEQ.lineStart);
-		this.send(SEQ.right, targetCol);
+		this.moveCursorTo(pos);
 	}
 
+	/**
+	 * Hand keys to the base editor, which may edit the text.
+	 */
 	private send(seq: string, count: number = 1): void {
 		if (count <= 0) {
 			return;
 		}
 		for (let i = 0; i < count; i++) {
+			this.textVersion += 1;
 			super.handleInput(seq);
 		}
 	}
 
 	private hasPendingCommand(): boolean {
-		return this.pendingCount.length > 0 || this.pendingOperator !== null || this.pendingFind !== null;
+		return (
+			this.pendingCount.length > 0 ||
+			this.pendingOperator !== null ||
+			this.pendingFind !== null ||
+			this.pendingTextObject !== null ||
+			this.pendingPrefix !== null ||
+			this.pendingRegister ||
+			this.activeRegister !== null ||
+			this.pendingMacro !== null ||
+			this.pendingMark !== null ||
+			this.commandLine !== null ||
+			this.pendingReplace
+		);
 	}
 
 	private consumeCount(defaultValue: number = 1): number {
@@ -1284,6 +3635,14 @@ class ModalEditor extends CustomEditor {
 		this.pendingOperator = null;
 		this.pendingOperatorCount = 1;
 		this.pendingFind = null;
+		this.pendingTextObject = null;
+		this.pendingPrefix = null;
+		this.pendingRegister = false;
+		this.activeRegister = null;
+		this.pendingMacro = null;
+		this.pendingMark = null;
+		this.commandLine = null;
+		this.pendingReplace = false;
 	}
 
 	private getModeBorderColor(base: (text: string) => string): (text: string) => string {
@@ -1294,46 +3653,258 @@ class ModalEditor extends CustomEditor {
 		if (this.mode === "normal") {
 			return (text: string) => themeRef.fg("accent", text);
 		}
-		if (this.mode === "visual") {
+		if (this.isVisualMode()) {
 			return (text: string) => themeRef.fg("warning", text);
 		}
 		// Insert mode keeps the default app/editor border color behavior
 		return base;
 	}
 
+	/**
+	 * Text lines shown before the editor scrolls: 'maxheight' percent of the
+	 * terminal, at least 5.
+	 */
+	private getMaxVisibleLines(): number {
+		return Math.max(5, Math.floor((this.tui.terminal.rows * this.options.get("maxheight")) / 100));
+	}
+
+	/**
+	 * Editor.render always sizes itself to 30% of the terminal, so hand it a
+	 * terminal height that works out to 'maxheight' instead.
+	 */
+	private renderEditor(width: number): string[] {
+		const tui = this.tui;
+		const rows = Math.ceil((this.getMaxVisibleLines() + 0.5) / 0.3);
+		this.tui = Object.create(tui, { terminal: { value: Object.create(tui.terminal, { rows: { value: rows } }) } });
+		try {
+			return super.render(width);
+		} finally {
+			this.tui = tui;
+		}
+	}
+
+	/**
+	 * Columns taken by line numbers ('number' / 'relativenumber'): at least three
+	 * digits and a space, like vim's default numberwidth. 0 when they are off or
+	 * the editor is too narrow.
+	 */
+	private getGutterWidth(width: number): number {
+		if (!this.options.get("number") && !this.options.get("relativenumber")) {
+			return 0;
+		}
+		const gutterWidth = Math.max(3, String(this.getLines().length).length) + 1;
+		return width - gutterWidth >= 10 ? gutterWidth : 0;
+	}
+
+	/**
+	 * Put line numbers in front of a rendered editor: a number on the first layout
+	 * line of each logical line, blanks on its wrapped continuations, and border
+	 * or blank cells around the text.
+	 */
+	private addLineNumbers(rendered: string[], gutterWidth: number, scrollOffset: number): void {
+		const segments = this.buildWrappedSegments((this as unknown as EditorInternals).lastWidth);
+		const visible = segments.slice(scrollOffset, scrollOffset + this.getMaxVisibleLines());
+		const cursorLine = this.getCursor().line;
+		const absolute = this.options.get("number");
+		const relative = this.options.get("relativenumber");
+		const border = this.borderColor("─".repeat(gutterWidth));
+		const blank = " ".repeat(gutterWidth);
+
+		for (let i = 0; i < rendered.length; i++) {
+			const segment = visible[i - 1];
+			if (i === 0 || i === visible.length + 1) {
+				rendered[i] = border + rendered[i];
+			} else if (!segment || segment.startCol > 0) {
+				rendered[i] = blank + rendered[i];
+			} else {
+				const isCursorLine = segment.logicalLine === cursorLine;
+				const number =
+					relative && !(absolute && isCursorLine) ? Math.abs(segment.logicalLine - cursorLine) : segment.logicalLine + 1;
+				const text = `${String(number).padStart(gutterWidth - 1)} `;
+				rendered[i] = (activeTheme ? activeTheme.fg(isCursorLine ? "accent" : "dim", text) : text) + rendered[i];
+			}
+		}
+	}
+
+	private getCursorMode(): CursorMode {
+		if (this.mode === "insert") {
+			return "i";
+		}
+		if (this.mode === "replace") {
+			return "r";
+		}
+		if (this.isVisualMode()) {
+			return "v";
+		}
+		return this.pendingOperator ? "o" : "n";
+	}
+
+	/**
+	 * Set the terminal cursor to the shape 'guicursor' gives the current mode,
+	 * writing only when it changes. Without focus the terminal gets its own back.
+	 */
+	private updateCursorShape(): void {
+		const shape = this.focused ? (parseCursorShapes(this.options.get("guicursor"))?.get(this.getCursorMode()) ?? null) : null;
+		if (shape === null) {
+			this.restoreCursorShape();
+		} else if (shape !== this.cursorShape) {
+			this.tui.terminal.write(shape);
+			this.cursorShape = shape;
+		}
+	}
+
+	/**
+	 * Give the terminal back its own cursor shape (on exit, when the editor is
+	 * replaced, or before handing the terminal to another program).
+	 */
+	restoreCursorShape(): void {
+		if (this.cursorShape !== null) {
+			this.tui.terminal.write(RESET_CURSOR_SHAPE);
+			this.cursorShape = null;
+		}
+	}
+
+	/**
+	 * Size of the visual selection as vim's showcmd gives it: characters within
+	 * a line, lines across several, lines x columns for a block.
+	 */
+	private getSelectionSize(): string | null {
+		const anchor = this.visualAnchor;
+		if (!anchor || !this.isVisualMode()) {
+			return null;
+		}
+		const cursor = this.getCursor();
+		const lineCount = Math.abs(cursor.line - anchor.line) + 1;
+		if (this.mode === "visual-block") {
+			const block = this.getBlockBounds()!;
+			return block.toLineEnd ? `${lineCount}x$` : `${lineCount}x${block.right - block.left + 1}`;
+		}
+		if (this.mode === "visual-line" || lineCount > 1) {
+			return `${lineCount} ${lineCount === 1 ? "line" : "lines"}`;
+		}
+		const lineText = this.getLines()[cursor.line] ?? "";
+		const start = Math.min(anchor.col, cursor.col);
+		const end = nextGraphemeIndex(lineText, Math.max(anchor.col, cursor.col));
+		const chars = Math.max(1, countGraphemes(lineText.slice(start, end)));
+		return `${chars} ${chars === 1 ? "char" : "chars"}`;
+	}
+
+	/**
+	 * The status on the bottom border: mode, pending command (showcmd), register,
+	 * recording, visual selection size and line:col/line count. When `width` is
+	 * too narrow the parts are dropped from the end of that list.
+	 */
+	private buildStatusLabel(width: number): string {
+		let modeLabel = MODE_LABELS[this.mode];
+		if (this.insertCommand) {
+			// Vim's "-- (insert) --" while Ctrl-O runs a command.
+			modeLabel = this.mode === "normal" ? "(INSERT)" : `(INSERT) ${modeLabel}`;
+		}
+		const parts = [modeLabel];
+
+		const register = this.pendingRegister ? '"' : this.activeRegister ? `"${this.activeRegister}` : "";
+		const operatorCount = this.pendingOperator && this.pendingOperatorCount > 1 ? String(this.pendingOperatorCount) : "";
+		let showcmd = `${operatorCount}${this.pendingOperator ?? ""}${this.pendingTextObject ?? ""}${this.pendingFind ?? ""}${this.pendingMacro ?? ""}${this.pendingMark ?? ""}${this.pendingCount}${this.pendingPrefix ? formatKeys([this.pendingPrefix]) : ""}${formatKeys(this.typeahead.map((entry) => entry.key))}`;
+		if (this.isInsertMode()) {
+			showcmd = this.pendingInsertRegister ? formatKeys(["\x12"]) : "";
+		}
+		const cursor = this.getCursor();
+		const lines = this.getLines();
+		const position = `${cursor.line + 1}:${displayColumn(lines[cursor.line] ?? "", cursor.col) + 1}/${lines.length}`;
+
+		const optional = [
+			showcmd ? `[${showcmd}]` : "",
+			register,
+			this.macroRegister !== null ? `recording @${this.macroRegister}` : "",
+			this.getSelectionSize() ?? "",
+			position,
+		].filter((part) => part.length > 0);
+
+		// Leave a few border cells on the left.
+		const available = width - 4;
+		for (const part of optional) {
+			if (visibleWidth(` ${[...parts, part].join(" ")} `) > available) {
+				break;
+			}
+			parts.push(part);
+		}
+		return truncateToWidth(` ${parts.join(" ")} `, Math.max(0, available), "");
+	}
+
+	private shouldRenderHighlighted(): boolean {
+		if (this.isVisualMode() || this.commandLine || this.getPendingInsertText()) {
+			return true;
+		}
+		return this.mode === "normal" && this.searchHighlight && this.lastSearch !== null;
+	}
+
 	render(width: number): string[] {
 		const previousBorderColor = this.borderColor;
 		const modeBorderColor = this.getModeBorderColor(previousBorderColor);
 		this.borderColor = modeBorderColor;
-		const lines = this.mode === "visual" ? this.renderVisualMode(width) : super.render(width);
-		this.borderColor = previousBorderColor;
-		if (lines.length === 0) return lines;
-
-		let label = " INSERT ";
-		if (this.mode === "normal") {
-			label = " NORMAL ";
-		} else if (this.mode === "visual") {
-			label = " VISUAL ";
+		const gutterWidth = this.getGutterWidth(width);
+		const highlighted = this.shouldRenderHighlighted();
+		const lines = highlighted ? this.renderHighlighted(width - gutterWidth) : this.renderEditor(width - gutterWidth);
+		if (gutterWidth > 0) {
+			// Rendering at the narrower width also set the wrap width cursor moves use.
+			const scrollOffset = highlighted ? this.visualScrollOffset : (this as unknown as EditorInternals).scrollOffset;
+			this.addLineNumbers(lines, gutterWidth, scrollOffset);
 		}
-
-		if (this.mode !== "insert") {
-			const pending = `${this.pendingOperator ?? ""}${this.pendingFind ?? ""}${this.pendingCount}`;
-			if (pending.length > 0) {
-				label = `${label.slice(0, -1)} [${pending}] `;
-			}
+		if (this.commandLine && lines.length > 0) {
+			lines[lines.length - 1] = this.renderCommandLine(width);
 		}
+		this.borderColor = previousBorderColor;
+		this.updateCursorShape();
+		if (lines.length === 0) return lines;
 
 		const last = lines.length - 1;
-		if (visibleWidth(lines[last]!) >= label.length) {
-			lines[last] = truncateToWidth(lines[last]!, width - label.length, "") + modeBorderColor(label);
-		}
-		return lines;
+		const label = this.buildStatusLabel(Math.min(width, visibleWidth(lines[last]!)));
+		lines[last] = truncateToWidth(lines[last]!, width - visibleWidth(label), "") + modeBorderColor(label);
+		return [...lines, ...this.messages.map((message) => truncateToWidth(message, width))];
+	}
+}
+
+/**
+ * Lines of a vimrc, or none if it does not exist.
+ */
+function readConfigFile(path: string): string[] {
+	if (!existsSync(path)) {
+		return [];
 	}
+	return readFileSync(path, "utf8").split(/\r?\n/);
 }
 
 export default function (pi: ExtensionAPI) {
+	let currentEditor: ModalEditor | null = null;
+
 	pi.on("session_start", (_event, ctx) => {
 		activeTheme = ctx.ui.theme;
-		ctx.ui.setEditorComponent((tui, theme, kb) => new ModalEditor(tui, theme, kb));
+		// The project's vimrc runs after the user's, so its settings win.
+		const userPath = join(getAgentDir(), CONFIG_FILE_NAME);
+		const paths = [userPath, join(ctx.cwd, PROJECT_CONFIG_DIR, CONFIG_FILE_NAME)];
+		const configs: { path: string; lines: string[]; secure: boolean }[] = [];
+		for (const path of new Set(paths)) {
+			try {
+				configs.push({ path, lines: readConfigFile(path), secure: path !== userPath });
+			} catch (error) {
+				ctx.ui.notify(`${path}: ${(error as Error).message}`, "warning");
+			}
+		}
+		ctx.ui.setEditorComponent((tui, theme, kb) => {
+			currentEditor?.restoreCursorShape();
+			const editor = new ModalEditor(tui, theme, kb);
+			currentEditor = editor;
+			for (const config of configs) {
+				const errors = editor.runConfig(config.lines, config.secure);
+				if (errors.length > 0) {
+					ctx.ui.notify(`${config.path}: ${errors.join("; ")}`, "warning");
+				}
+			}
+			return editor;
+		});
+	});
+
+	pi.on("session_shutdown", () => {
+		currentEditor?.restoreCursorShape();
 	});
 }
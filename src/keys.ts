@@ -0,0 +1,31 @@
+/**
+ * Key sequences - splitting recorded terminal input back into individual keys
+ */
+
+const CSI_PATTERN = /^\x1b\[[0-9;:?<=>]*[ -/]*[@-~]/;
+const SS3_PATTERN = /^\x1bO./u;
+
+/**
+ * Split raw input (as stored in a macro register) into the keys it was typed as.
+ * CSI and SS3 escape sequences stay whole; a lone ESC is the Escape key.
+ */
+export function splitKeys(text: string): string[] {
+	const keys: string[] = [];
+	let index = 0;
+
+	while (index < text.length) {
+		const key = firstKey(text.slice(index));
+		keys.push(key);
+		index += key.length;
+	}
+
+	return keys;
+}
+
+/**
+ * The key raw input starts with: a whole CSI or SS3 escape sequence, or one character.
+ */
+export function firstKey(text: string): string {
+	const sequence = text.match(CSI_PATTERN) ?? text.match(SS3_PATTERN);
+	return sequence ? sequence[0] : String.fromCodePoint(text.codePointAt(0) ?? 0);
+}
@@ -0,0 +1,272 @@
+/**
+ * Key mappings - user-defined bindings from the :map family of commands
+ *
+ * - Modes: n (normal), v (visual), o (operator pending), i (insert)
+ * - map/nmap/vmap/xmap/omap/imap remap their right-hand side; the noremap variants do not
+ * - unmap/nunmap/... remove a mapping
+ * - Key notation: <leader>, <CR>, <Esc>, <Space>, <Tab>, <BS>, <Del>, <Up>/<Down>/<Left>/<Right>,
+ *   <Home>, <End>, <C-x>, <A-x>/<M-x>, <lt>, <Bar>, <Bslash>, <Nop>
+ *
+ * Left-hand sides are stored as key identities (see keyIdentity) so a key matches
+ * whether the terminal sent it as a legacy or a Kitty protocol sequence.
+ */
+
+import { parseKey } from "@mariozechner/pi-tui";
+import { firstKey } from "./keys.js";
+
+export type MapMode = "n" | "v" | "o" | "i";
+
+export interface KeyMapping {
+	lhs: string[];
+	rhs: string[];
+	recursive: boolean;
+}
+
+export interface MapCommand {
+	modes: MapMode[];
+	recursive: boolean;
+	remove: boolean;
+}
+
+export interface MappingLookup {
+	/** Mapping whose left-hand side is exactly the given keys. */
+	mapping: KeyMapping | null;
+	/** Whether a longer mapping starts with the given keys. */
+	partial: boolean;
+}
+
+const MAP_COMMANDS: Record<string, MapCommand> = {
+	map: { modes: ["n", "v", "o"], recursive: true, remove: false },
+	noremap: { modes: ["n", "v", "o"], recursive: false, remove: false },
+	unmap: { modes: ["n", "v", "o"], recursive: false, remove: true },
+	nmap: { modes: ["n"], recursive: true, remove: false },
+	nnoremap: { modes: ["n"], recursive: false, remove: false },
+	nunmap: { modes: ["n"], recursive: false, remove: true },
+	vmap: { modes: ["v"], recursive: true, remove: false },
+	vnoremap: { modes: ["v"], recursive: false, remove: false },
+	vunmap: { modes: ["v"], recursive: false, remove: true },
+	xmap: { modes: ["v"], recursive: true, remove: false },
+	xnoremap: { modes: ["v"], recursive: false, remove: false },
+	xunmap: { modes: ["v"], recursive: false, remove: true },
+	omap: { modes: ["o"], recursive: true, remove: false },
+	onoremap: { modes: ["o"], recursive: false, remove: false },
+	ounmap: { modes: ["o"], recursive: false, remove: true },
+	imap: { modes: ["i"], recursive: true, remove: false },
+	inoremap: { modes: ["i"], recursive: false, remove: false },
+	iunmap: { modes: ["i"], recursive: false, remove: true },
+};
+
+const NAMED_KEYS: Record<string, string> = {
+	cr: "\r",
+	enter: "\r",
+	return: "\r",
+	esc: "\x1b",
+	space: " ",
+	tab: "\t",
+	bs: "\x7f",
+	del: "\x1b[3~",
+	up: "\x1b[A",
+	down: "\x1b[B",
+	right: "\x1b[C",
+	left: "\x1b[D",
+	home: "\x1b[H",
+	end: "\x1b[F",
+	lt: "<",
+	bar: "|",
+	bslash: "\\",
+};
+
+const KEY_NOTATION: Record<string, string> = {
+	"\r": "<CR>",
+	"\x1b": "<Esc>",
+	" ": "<Space>",
+	"\t": "<Tab>",
+	"\x7f": "<BS>",
+	"\x1b[3~": "<Del>",
+	"\x1b[A": "<Up>",
+	"\x1b[B": "<Down>",
+	"\x1b[C": "<Right>",
+	"\x1b[D": "<Left>",
+	"\x1b[H": "<Home>",
+	"\x1b[F": "<End>",
+	"<": "<lt>",
+};
+
+/** Notation for keys as pi-tui's parseKey names them, whichever sequence the terminal sent. */
+const KEY_ID_NOTATION: Record<string, string> = {
+	escape: "<Esc>",
+	enter: "<CR>",
+	tab: "<Tab>",
+	backspace: "<BS>",
+	delete: "<Del>",
+	up: "<Up>",
+	down: "<Down>",
+	right: "<Right>",
+	left: "<Left>",
+	home: "<Home>",
+	end: "<End>",
+};
+
+export function getMapCommand(name: string): MapCommand | null {
+	return MAP_COMMANDS[name] ?? null;
+}
+
+/**
+ * Canonical name for a key: printable characters stand for themselves, anything
+ * else is identified by the key it encodes (e.g. "escape", "ctrl+x").
+ */
+export function keyIdentity(key: string): string {
+	if (isPrintableKey(key)) {
+		return key;
+	}
+	return parseKey(key) ?? key;
+}
+
+function isPrintableKey(key: string): boolean {
+	return key.length > 0 && [...key].length === 1 && key.charCodeAt(0) >= 32 && key !== "\x7f";
+}
+
+/**
+ * Expand vim key notation into the raw keys it stands for.
+ */
+export function parseKeyNotation(text: string, leader: string): string[] {
+	const keys: string[] = [];
+	let index = 0;
+	while (index < text.length) {
+		const special = text.slice(index).match(/^<([^<>\s]+)>/);
+		if (special) {
+			const expanded = expandSpecialKey(special[1]!, leader);
+			if (expanded !== null) {
+				keys.push(...expanded);
+				index += special[0].length;
+				continue;
+			}
+		}
+		const key = firstKey(text.slice(index));
+		keys.push(key);
+		index += key.length;
+	}
+	return keys;
+}
+
+function expandSpecialKey(name: string, leader: string): string[] | null {
+	const lower = name.toLowerCase();
+	if (lower === "leader") {
+		return [leader];
+	}
+	if (lower === "nop") {
+		return [];
+	}
+	const named = NAMED_KEYS[lower];
+	if (named !== undefined) {
+		return [named];
+	}
+
+	const modified = name.match(/^([CcAaMm])-(.+)$/);
+	if (!modified) {
+		return null;
+	}
+	const base = expandSpecialKey(modified[2]!, leader)?.[0] ?? (modified[2]!.length === 1 ? modified[2]! : null);
+	if (base === null) {
+		return null;
+	}
+	if (modified[1]!.toLowerCase() !== "c") {
+		return [`\x1b${base}`];
+	}
+	if (/^[a-zA-Z@[\\\]^_]$/.test(base)) {
+		return [String.fromCharCode(base.toUpperCase().charCodeAt(0) & 0x1f)];
+	}
+	return null;
+}
+
+/**
+ * Render raw keys back into key notation, for listing mappings.
+ */
+export function formatKeys(keys: string[]): string {
+	return keys
+		.map((key) => {
+			const named = KEY_NOTATION[key];
+			if (named) {
+				return named;
+			}
+			const code = key.charCodeAt(0);
+			return key.length === 1 && code < 32 ? `<C-${String.fromCharCode(code + 96)}>` : key;
+		})
+		.join("");
+}
+
+/**
+ * Render the keys of a recorded macro as register text that parseKeyNotation reads
+ * back as the same keys: typed characters as they are, other keys in key notation.
+ * Keys without a notation (e.g. Shift-Enter) stay raw.
+ */
+export function formatRecordedKeys(keys: string[]): string {
+	return keys
+		.map((key) => {
+			if (key === "<") {
+				return "<lt>";
+			}
+			if (key === "\t" || isPrintableKey(key)) {
+				return key;
+			}
+			const id = parseKey(key) ?? "";
+			const ctrl = id.match(/^ctrl\+([a-z@[\\\]^_])$/);
+			if (ctrl) {
+				return `<C-${ctrl[1]}>`;
+			}
+			const alt = id.match(/^alt\+([a-z0-9])$/);
+			if (alt) {
+				return `<M-${alt[1]}>`;
+			}
+			return KEY_ID_NOTATION[id] ?? key;
+		})
+		.join("");
+}
+
+export class KeyMappings {
+	private readonly mappings = new Map<MapMode, KeyMapping[]>();
+
+	set(mode: MapMode, lhs: string[], rhs: string[], recursive: boolean): void {
+		this.remove(mode, lhs);
+		const list = this.mappings.get(mode) ?? [];
+		list.push({ lhs, rhs, recursive });
+		this.mappings.set(mode, list);
+	}
+
+	remove(mode: MapMode, lhs: string[]): boolean {
+		const list = this.mappings.get(mode) ?? [];
+		const ids = lhs.map(keyIdentity);
+		const index = list.findIndex((mapping) => sameKeys(mapping.lhs.map(keyIdentity), ids));
+		if (index < 0) {
+			return false;
+		}
+		list.splice(index, 1);
+		return true;
+	}
+
+	lookup(mode: MapMode, keys: string[]): MappingLookup {
+		const ids = keys.map(keyIdentity);
+		let mapping: KeyMapping | null = null;
+		let partial = false;
+		for (const candidate of this.mappings.get(mode) ?? []) {
+			const lhs = candidate.lhs.map(keyIdentity);
+			if (lhs.length < ids.length || !sameKeys(lhs.slice(0, ids.length), ids)) {
+				continue;
+			}
+			if (lhs.length === ids.length) {
+				mapping = candidate;
+			} else {
+				partial = true;
+			}
+		}
+		return { mapping, partial };
+	}
+
+	list(mode: MapMode): KeyMapping[] {
+		return [...(this.mappings.get(mode) ?? [])];
+	}
+}
+
+function sameKeys(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((key, index) => key === b[index]);
+}
@@ -0,0 +1,130 @@
+/**
+ * Marks and jumplist - remembered positions that follow edits
+ *
+ * - a-z: set with m{a-z}
+ * - ': where the cursor was before the latest jump ('' and `` go back)
+ * - .: where the last change was made
+ * - [ and ]: first and last character of the last changed or yanked text
+ * - < and >: start and end of the last visual selection
+ *
+ * Positions are offsets into the whole text. After each edit the changed region
+ * is found by comparing the old and new text (see diffText); positions after it
+ * shift by the change in length and positions inside a shrunk region move to its end.
+ */
+
+export interface TextChange {
+	start: number;
+	/** End of the replaced region in the old text. */
+	oldEnd: number;
+	/** End of the replacement in the new text. */
+	newEnd: number;
+}
+
+const MAX_JUMPS = 100;
+
+export function isMarkName(name: string): boolean {
+	return /^[a-z'`.[\]<>]$/.test(name);
+}
+
+/**
+ * The smallest region whose replacement turns `before` into `after`.
+ */
+export function diffText(before: string, after: string): TextChange {
+	const limit = Math.min(before.length, after.length);
+	let prefix = 0;
+	while (prefix < limit && before[prefix] === after[prefix]) {
+		prefix += 1;
+	}
+	let suffix = 0;
+	while (suffix < limit - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+		suffix += 1;
+	}
+	return { start: prefix, oldEnd: before.length - suffix, newEnd: after.length - suffix };
+}
+
+function shiftOffset(offset: number, change: TextChange): number {
+	if (offset < change.start) {
+		return offset;
+	}
+	if (offset >= change.oldEnd) {
+		return offset + change.newEnd - change.oldEnd;
+	}
+	return Math.min(offset, change.newEnd);
+}
+
+export class MarkStore {
+	private readonly marks = new Map<string, number>();
+
+	get(name: string): number | null {
+		// ` is another name for the ' mark.
+		return this.marks.get(name === "`" ? "'" : name) ?? null;
+	}
+
+	set(name: string, offset: number): void {
+		this.marks.set(name === "`" ? "'" : name, offset);
+	}
+
+	/**
+	 * Shift every mark past an edit and point ., [ and ] at the changed text.
+	 */
+	applyChange(change: TextChange): void {
+		for (const [name, offset] of this.marks) {
+			this.marks.set(name, shiftOffset(offset, change));
+		}
+		const last = Math.max(change.start, change.newEnd - 1);
+		this.marks.set(".", last);
+		this.marks.set("[", change.start);
+		this.marks.set("]", last);
+	}
+}
+
+/**
+ * Positions left by jumps (searches, mark jumps, :N), walked with Ctrl-O and Ctrl-I.
+ */
+export class JumpList {
+	private entries: number[] = [];
+	/** Position in entries; entries.length when not walking the list. */
+	private index = 0;
+
+	/**
+	 * Record the position a jump leaves from.
+	 */
+	push(offset: number): void {
+		this.entries = this.entries.filter((entry) => entry !== offset);
+		this.entries.push(offset);
+		if (this.entries.length > MAX_JUMPS) {
+			this.entries.shift();
+		}
+		this.index = this.entries.length;
+	}
+
+	/**
+	 * Go `count` entries back. Leaving the end of the list first records `current`
+	 * so Ctrl-I can come back to it.
+	 */
+	back(current: number, count: number): number | null {
+		if (this.index >= this.entries.length) {
+			this.push(current);
+			this.index = this.entries.length - 1;
+		}
+		const target = this.index - count;
+		if (target < 0) {
+			return null;
+		}
+		this.index = target;
+		return this.entries[target]!;
+	}
+
+	forward(count: number): number | null {
+		const target = this.index + count;
+		if (target >= this.entries.length) {
+			return null;
+		}
+		this.index = target;
+		return this.entries[target]!;
+	}
+
+	applyChange(change: TextChange): void {
+		this.entries = this.entries.map((entry) => shiftOffset(entry, change));
+	}
+}
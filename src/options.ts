@@ -0,0 +1,214 @@
+/**
+ * Options - the registry behind :set
+ *
+ * - :set opt / :set noopt / :set invopt (or opt!) switch boolean options
+ * - :set opt=value (or opt:value), opt+=N / opt-=N for numbers, opt& resets to the default
+ * - :set opt? shows a value; :set lists the options changed from their defaults, :set all every option
+ * - Several arguments can be given at once: :set ic scs tm=500
+ *
+ * Values are validated when they are set, so a bad vimrc line is reported and
+ * the option keeps its previous value.
+ */
+
+import type { ClipboardName } from "./clipboard.js";
+import { parseCursorShapes } from "./cursor-shape.js";
+import { ExError } from "./ex-commands.js";
+
+export type OptionValue = boolean | number | string;
+
+export interface OptionValues {
+	/** Where "+ and "* (and plain yanks) go; see clipboard.ts. */
+	clipboard: ClipboardName;
+	/** Escape in normal mode with nothing pending aborts the running agent. */
+	escapeabort: boolean;
+	/** Terminal cursor shape per mode, e.g. "n-v:block,i:bar,r-o:underline"; see cursor-shape.ts. */
+	guicursor: string;
+	ignorecase: boolean;
+	/** Insert mode takes vim's Ctrl-O, Ctrl-R, Ctrl-U, Ctrl-T and Ctrl-D from pi (off: pi binds Ctrl-O and Ctrl-T). */
+	insertkeys: boolean;
+	/** Percentage of the terminal height the editor grows to before scrolling. */
+	maxheight: number;
+	/** Line numbers in a gutter; with relativenumber the cursor line shows its absolute number. */
+	number: boolean;
+	/** Line numbers relative to the cursor line. */
+	relativenumber: boolean;
+	/** Columns per indent level for Ctrl-T and Ctrl-D in insert mode. */
+	shiftwidth: number;
+	/** With ignorecase, a pattern containing uppercase matches case-sensitively. */
+	smartcase: boolean;
+	/** Mode a new editor starts in. */
+	startmode: "insert" | "normal";
+	/** Whether a partially typed mapping gives up after timeoutlen. */
+	timeout: boolean;
+	timeoutlen: number;
+}
+
+export type OptionName = keyof OptionValues;
+
+interface OptionSpec {
+	name: OptionName;
+	alias: string;
+	default: OptionValue;
+	/** Accepted values of a string option. */
+	values?: string[];
+	/** Check for a free-form string option. */
+	validate?: (value: string) => boolean;
+	min?: number;
+	max?: number;
+}
+
+const OPTION_SPECS: OptionSpec[] = [
+	{ name: "clipboard", alias: "cb", default: "auto", values: ["auto", "system", "osc52", "tmux", "internal"] },
+	{ name: "escapeabort", alias: "ea", default: true },
+	{
+		name: "guicursor",
+		alias: "gcr",
+		default: "n-v:block,i:bar,r-o:underline",
+		validate: (value) => parseCursorShapes(value) !== null,
+	},
+	{ name: "ignorecase", alias: "ic", default: false },
+	{ name: "insertkeys", alias: "ik", default: false },
+	{ name: "maxheight", alias: "mh", default: 30, min: 10, max: 100 },
+	{ name: "number", alias: "nu", default: false },
+	{ name: "relativenumber", alias: "rnu", default: false },
+	{ name: "shiftwidth", alias: "sw", default: 2, min: 1, max: 16 },
+	{ name: "smartcase", alias: "scs", default: false },
+	{ name: "startmode", alias: "sm", default: "insert", values: ["insert", "normal"] },
+	{ name: "timeout", alias: "to", default: true },
+	{ name: "timeoutlen", alias: "tm", default: 1000, min: 0 },
+];
+
+function findSpec(name: string): OptionSpec | null {
+	return OPTION_SPECS.find((spec) => spec.name === name || spec.alias === name) ?? null;
+}
+
+function formatOption(spec: OptionSpec, value: OptionValue): string {
+	if (typeof value === "boolean") {
+		return value ? `  ${spec.name}` : `no${spec.name}`;
+	}
+	return `  ${spec.name}=${value}`;
+}
+
+/**
+ * Split :set arguments on whitespace; "\ " keeps a space inside a value.
+ */
+function splitArguments(text: string): string[] {
+	const args: string[] = [];
+	let current = "";
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i]!;
+		if (char === "\\" && text[i + 1] === " ") {
+			current += " ";
+			i += 1;
+		} else if (/\s/.test(char)) {
+			if (current) {
+				args.push(current);
+			}
+			current = "";
+		} else {
+			current += char;
+		}
+	}
+	if (current) {
+		args.push(current);
+	}
+	return args;
+}
+
+export class Options {
+	private readonly values = new Map<OptionName, OptionValue>(OPTION_SPECS.map((spec) => [spec.name, spec.default]));
+
+	get<K extends OptionName>(name: K): OptionValues[K] {
+		return this.values.get(name) as OptionValues[K];
+	}
+
+	/**
+	 * Apply a :set argument string. Returns the lines to show for queries and
+	 * listings; throws ExError for the first invalid argument.
+	 */
+	set(text: string): string[] {
+		const args = splitArguments(text);
+		if (args.length === 0) {
+			const changed = OPTION_SPECS.filter((spec) => this.values.get(spec.name) !== spec.default);
+			return ["--- Options ---", ...changed.map((spec) => formatOption(spec, this.values.get(spec.name)!))];
+		}
+		if (args.length === 1 && args[0] === "all") {
+			return ["--- Options ---", ...OPTION_SPECS.map((spec) => formatOption(spec, this.values.get(spec.name)!))];
+		}
+
+		const output: string[] = [];
+		for (const arg of args) {
+			const shown = this.apply(arg);
+			if (shown !== null) {
+				output.push(shown);
+			}
+		}
+		return output;
+	}
+
+	private apply(arg: string): string | null {
+		const parsed = arg.match(/^([a-z]+)(?:(\?|!|&)|([+-]?)[=:]([\s\S]*))?$/);
+		if (!parsed) {
+			throw new ExError(`E518: Unknown option: ${arg}`);
+		}
+		const name = parsed[1]!;
+		const suffix = parsed[2];
+		const operator = parsed[3];
+		const rawValue = parsed[4];
+
+		let spec = findSpec(name);
+		let prefix = "";
+		if (!spec && /^(no|inv)/.test(name)) {
+			prefix = name.startsWith("no") ? "no" : "inv";
+			spec = findSpec(name.slice(prefix.length));
+		}
+		if (!spec) {
+			throw new ExError(`E518: Unknown option: ${arg}`);
+		}
+		const current = this.values.get(spec.name)!;
+		const isBoolean = typeof spec.default === "boolean";
+
+		if (prefix && (!isBoolean || suffix || rawValue !== undefined)) {
+			throw new ExError(`E474: Invalid argument: ${arg}`);
+		}
+		if (suffix === "?" || (!isBoolean && suffix === undefined && rawValue === undefined)) {
+			return formatOption(spec, current);
+		}
+		if (suffix === "&") {
+			this.values.set(spec.name, spec.default);
+			return null;
+		}
+		if (isBoolean) {
+			if (rawValue !== undefined) {
+				throw new ExError(`E474: Invalid argument: ${arg}`);
+			}
+			this.values.set(spec.name, suffix === "!" || prefix === "inv" ? !current : prefix !== "no");
+			return null;
+		}
+		if (suffix === "!") {
+			throw new ExError(`E474: Invalid argument: ${arg}`);
+		}
+
+		this.values.set(spec.name, this.parseValue(spec, arg, operator ?? "", rawValue ?? "", current));
+		return null;
+	}
+
+	private parseValue(spec: OptionSpec, arg: string, operator: string, text: string, current: OptionValue): OptionValue {
+		if (typeof spec.default === "number") {
+			if (!/^-?\d+$/.test(text)) {
+				throw new ExError(`E521: Number required after =: ${arg}`);
+			}
+			const amount = Number.parseInt(text, 10);
+			const value = operator === "+" ? (current as number) + amount : operator === "-" ? (current as number) - amount : amount;
+			if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+				throw new ExError(`E474: Invalid argument: ${arg}`);
+			}
+			return value;
+		}
+
+		if (operator || (spec.values && !spec.values.includes(text)) || (spec.validate && !spec.validate(text))) {
+			throw new ExError(`E474: Invalid argument: ${arg}`);
+		}
+		return text;
+	}
+}
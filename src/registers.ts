@@ -0,0 +1,157 @@
+/**
+ * Registers - vim register semantics for yank, delete and paste
+ *
+ * - Unnamed ("): last written register, used when no register is given
+ * - Named ("a-"z): uppercase "A-"Z appends to the lowercase register
+ * - Yank (0): last yank without an explicit register
+ * - Delete history (1-9): multi-line and linewise deletes, shifted on each delete
+ * - Small delete (-): deletes within a single line
+ * - Black hole (_): discards writes
+ * - Clipboard (+ and *): system clipboard
+ *
+ * Macros are recorded into the same registers as plain text.
+ */
+
+export type RegisterType = "charwise" | "linewise" | "blockwise";
+
+export interface RegisterContent {
+	text: string;
+	type: RegisterType;
+}
+
+export type RegisterOperation = "yank" | "delete";
+
+export interface ClipboardAccess {
+	read(): string | null;
+	write(text: string): void;
+}
+
+const UNNAMED = '"';
+
+export function isRegisterName(name: string): boolean {
+	return /^[a-zA-Z0-9"\-_+*]$/.test(name);
+}
+
+export function isRecordableRegister(name: string): boolean {
+	return /^[a-zA-Z0-9"]$/.test(name);
+}
+
+/**
+ * Register text as it may go into the prompt: control characters other than tab
+ * and line breaks (such as a key a recorded macro has no notation for) in caret
+ * notation, e.g. ^[, as vim displays them.
+ */
+export function printableText(text: string): string {
+	return text.replace(/[\x00-\x08\x0b-\x1f\x7f]/g, (char) =>
+		char === "\x7f" ? "^?" : `^${String.fromCharCode(char.charCodeAt(0) + 64)}`,
+	);
+}
+
+export class RegisterStore {
+	private readonly contents = new Map<string, RegisterContent>();
+
+	constructor(private readonly clipboard: ClipboardAccess) {}
+
+	read(name: string | null): RegisterContent | null {
+		const register = name ?? UNNAMED;
+		if (register === "_") {
+			return null;
+		}
+		if (register === "+" || register === "*") {
+			return this.readClipboard();
+		}
+		return this.contents.get(register.toLowerCase()) ?? null;
+	}
+
+	/**
+	 * Store yanked or deleted text. Without an explicit register, yanks land in "0
+	 * (and the system clipboard) while deletes go to "1-"9 or "-, so deleting never
+	 * clobbers the last yank.
+	 */
+	write(name: string | null, operation: RegisterOperation, content: RegisterContent): void {
+		const register = name ?? UNNAMED;
+		if (register === "_") {
+			return;
+		}
+
+		if (register === "+" || register === "*") {
+			this.clipboard.write(toClipboardText(content));
+			this.contents.set(UNNAMED, content);
+			return;
+		}
+
+		if (/^[a-zA-Z]$/.test(register)) {
+			const lower = register.toLowerCase();
+			const existing = this.contents.get(lower);
+			const next = register !== lower && existing ? appendContent(existing, content) : content;
+			this.contents.set(lower, next);
+			this.contents.set(UNNAMED, next);
+			return;
+		}
+
+		if (/^[0-9-]$/.test(register)) {
+			this.contents.set(register, content);
+			this.contents.set(UNNAMED, content);
+			return;
+		}
+
+		if (operation === "yank") {
+			this.contents.set("0", content);
+			this.clipboard.write(toClipboardText(content));
+		} else if (content.type === "linewise" || content.text.includes("\n")) {
+			this.shiftDeleteHistory(content);
+		} else {
+			this.contents.set("-", content);
+		}
+		this.contents.set(UNNAMED, content);
+	}
+
+	/**
+	 * Store a recorded macro. Unlike yanks and deletes this leaves the unnamed
+	 * register alone; "A-"Z still append.
+	 */
+	record(name: string, text: string): void {
+		const lower = name.toLowerCase();
+		const existing = this.contents.get(lower);
+		if (name !== lower && existing) {
+			this.contents.set(lower, { text: existing.text + text, type: existing.type });
+			return;
+		}
+		this.contents.set(lower, { text, type: "charwise" });
+	}
+
+	private shiftDeleteHistory(content: RegisterContent): void {
+		for (let i = 9; i > 1; i--) {
+			const previous = this.contents.get(String(i - 1));
+			if (previous) {
+				this.contents.set(String(i), previous);
+			}
+		}
+		this.contents.set("1", content);
+	}
+
+	private readClipboard(): RegisterContent | null {
+		const text = this.clipboard.read();
+		if (text === null) {
+			return null;
+		}
+		if (text.endsWith("\n")) {
+			return { text: text.slice(0, -1), type: "linewise" };
+		}
+		return { text, type: "charwise" };
+	}
+}
+
+function appendContent(existing: RegisterContent, added: RegisterContent): RegisterContent {
+	if (existing.type === "linewise" || added.type === "linewise") {
+		return { text: `${existing.text}\n${added.text}`, type: "linewise" };
+	}
+	if (existing.type === "blockwise" || added.type === "blockwise") {
+		return { text: `${existing.text}\n${added.text}`, type: "blockwise" };
+	}
+	return { text: existing.text + added.text, type: "charwise" };
+}
+
+function toClipboardText(content: RegisterContent): string {
+	return content.type === "linewise" ? `${content.text}\n` : content.text;
+}
@@ -0,0 +1,157 @@
+/**
+ * Buffer search - pattern compilation and match lookup for / ? n N * #
+ *
+ * Patterns use vim's magic syntax, translated into a JavaScript regular
+ * expression: ( ) | + ? { } match themselves, while \( \) \%( \| \+ \= \? \{n,m}
+ * (\{-n,m} non-greedy) and the \< \> word edges are special. Classes like \w \s \d
+ * and bracket expressions work as in JavaScript. An invalid pattern is searched
+ * for literally. \c anywhere in the pattern forces ignore-case, \C forces
+ * case-sensitive matching.
+ */
+
+export interface SearchMatch {
+	start: number;
+	end: number;
+}
+
+export interface SearchOptions {
+	ignoreCase?: boolean;
+	smartCase?: boolean;
+}
+
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Pattern used by * and # for the word under the cursor.
+ */
+export function wordSearchPattern(word: string): string {
+	const escaped = word.replace(/[\\.*[\]^$]/g, "\\$&");
+	return /^\w/.test(word) && /\w$/.test(word) ? `\\<${escaped}\\>` : escaped;
+}
+
+const KEYWORD = "[\\p{L}\\p{M}\\p{N}_]";
+
+/** Vim's backslash atoms and the JavaScript syntax for them. */
+const VIM_ATOMS = new Map([
+	["(", "("],
+	[")", ")"],
+	["|", "|"],
+	["+", "+"],
+	["=", "?"],
+	["?", "?"],
+	["<", `(?<!${KEYWORD})(?=${KEYWORD})`],
+	[">", `(?<=${KEYWORD})(?!${KEYWORD})`],
+]);
+
+/** Characters that are literal in a vim pattern but special to JavaScript. */
+const LITERAL_CHARS = new Set(["(", ")", "|", "+", "?", "{", "}"]);
+
+/**
+ * Rewrite a vim pattern as a JavaScript regular expression. Other escapes and
+ * bracket expressions are left alone.
+ */
+function translatePattern(source: string): string {
+	let result = "";
+	let inClass = false;
+	for (let i = 0; i < source.length; i++) {
+		const char = source[i]!;
+		if (char === "\\" && i + 1 < source.length) {
+			const next = source[i + 1]!;
+			i += 1;
+			const interval = !inClass && next === "{" ? source.slice(i + 1).match(/^(-?)(\d*)(?:,(\d*))?\\?\}/) : null;
+			if (interval) {
+				result += intervalQuantifier(interval);
+				i += interval[0].length;
+			} else if (!inClass && next === "%" && source[i + 1] === "(") {
+				result += "(?:";
+				i += 1;
+			} else {
+				result += (!inClass && VIM_ATOMS.get(next)) || char + next;
+			}
+			continue;
+		}
+		if (inClass) {
+			inClass = char !== "]";
+		} else if (char === "[") {
+			inClass = true;
+		} else if (LITERAL_CHARS.has(char)) {
+			result += "\\";
+		}
+		result += char;
+	}
+	return result;
+}
+
+/**
+ * JavaScript quantifier for vim's \{n,m}: \{} is *, \{n} exactly n, a missing
+ * minimum is 0, and a leading - makes it non-greedy.
+ */
+function intervalQuantifier([, lazy, min, max]: RegExpMatchArray): string {
+	const quantifier = max === undefined ? (min ? `{${min}}` : "*") : `{${min || 0},${max}}`;
+	return lazy ? `${quantifier}?` : quantifier;
+}
+
+export function compileSearchPattern(pattern: string, options: SearchOptions = {}): RegExp | null {
+	let source = pattern;
+	let ignoreCase = options.ignoreCase ?? false;
+
+	if (/\\C/.test(source)) {
+		source = source.replace(/\\C/g, "");
+		ignoreCase = false;
+	} else if (/\\c/.test(source)) {
+		source = source.replace(/\\c/g, "");
+		ignoreCase = true;
+	} else if (ignoreCase && options.smartCase && /[A-Z]/.test(source)) {
+		ignoreCase = false;
+	}
+
+	if (source.length === 0) {
+		return null;
+	}
+
+	const flags = ignoreCase ? "gimu" : "gmu";
+	try {
+		return new RegExp(translatePattern(source), flags);
+	} catch {
+		return new RegExp(escapeRegExp(source), flags);
+	}
+}
+
+export function findMatches(text: string, regex: RegExp): SearchMatch[] {
+	const matches: SearchMatch[] = [];
+	const global = regex.global ? regex : new RegExp(regex.source, `${regex.flags}g`);
+	global.lastIndex = 0;
+	for (const match of text.matchAll(global)) {
+		const start = match.index ?? 0;
+		matches.push({ start, end: start + match[0].length });
+	}
+	return matches;
+}
+
+/**
+ * Find the count-th match after (or before) fromIndex, wrapping around the buffer.
+ */
+export function findNextMatch(
+	matches: SearchMatch[],
+	fromIndex: number,
+	backward: boolean,
+	count: number = 1,
+): SearchMatch | null {
+	if (matches.length === 0) {
+		return null;
+	}
+
+	let index = fromIndex;
+	let found: SearchMatch | null = null;
+	for (let i = 0; i < Math.max(1, count); i++) {
+		if (backward) {
+			found = [...matches].reverse().find((match) => match.start < index) ?? matches[matches.length - 1]!;
+		} else {
+			found = matches.find((match) => match.start > index) ?? matches[0]!;
+		}
+		index = found.start;
+	}
+	return found;
+}
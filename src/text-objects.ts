@@ -0,0 +1,362 @@
+/**
+ * Text objects - inner/around selections for operators and visual mode
+ *
+ * - Words: iw/aw (keyword, punctuation and whitespace runs), iW/aW (whitespace-separated)
+ * - Quotes: i"/a", i'/a', i`/a` (current line, backslash escapes skipped)
+ * - Brackets: i(/a( (also b), i{/a{ (also B), i[/a[, i</a< (multi-line, nested)
+ * - Tags: it/at
+ * - Paragraphs: ip/ap (linewise)
+ *
+ * All ranges are absolute offsets into the joined buffer text, end-exclusive.
+ */
+
+import { classify } from "./word-motions.js";
+
+export interface TextObjectRange {
+	start: number;
+	end: number;
+	linewise: boolean;
+}
+
+const BRACKET_PAIRS: Record<string, [string, string]> = {
+	"(": ["(", ")"],
+	")": ["(", ")"],
+	b: ["(", ")"],
+	"{": ["{", "}"],
+	"}": ["{", "}"],
+	B: ["{", "}"],
+	"[": ["[", "]"],
+	"]": ["[", "]"],
+	"<": ["<", ">"],
+	">": ["<", ">"],
+};
+
+const QUOTE_CHARS = new Set(['"', "'", "`"]);
+
+export function isTextObjectKey(key: string): boolean {
+	return key in BRACKET_PAIRS || QUOTE_CHARS.has(key) || key === "w" || key === "W" || key === "t" || key === "p";
+}
+
+export function findTextObject(
+	text: string,
+	cursorIndex: number,
+	key: string,
+	around: boolean,
+	count: number = 1,
+): TextObjectRange | null {
+	const repeats = Math.max(1, count);
+	const index = Math.max(0, Math.min(cursorIndex, text.length));
+
+	if (key === "w" || key === "W") {
+		return findWordObject(text, index, key === "W", around, repeats);
+	}
+	if (QUOTE_CHARS.has(key)) {
+		return findQuoteObject(text, index, key, around);
+	}
+	const pair = BRACKET_PAIRS[key];
+	if (pair) {
+		return findBracketObject(text, index, pair[0], pair[1], around, repeats);
+	}
+	if (key === "t") {
+		return findTagObject(text, index, around, repeats);
+	}
+	if (key === "p") {
+		return findParagraphObject(text, index, around, repeats);
+	}
+	return null;
+}
+
+function lineBounds(text: string, index: number): { start: number; end: number } {
+	const start = text.lastIndexOf("\n", index - 1) + 1;
+	const newline = text.indexOf("\n", index);
+	return { start, end: newline < 0 ? text.length : newline };
+}
+
+function findWordObject(
+	text: string,
+	index: number,
+	bigWord: boolean,
+	around: boolean,
+	repeats: number,
+): TextObjectRange | null {
+	const { start: lineStart, end: lineEnd } = lineBounds(text, index);
+	if (lineStart === lineEnd) {
+		return null;
+	}
+
+	const at = Math.min(index, lineEnd - 1);
+	const runStartOf = (pos: number): number => {
+		const cls = classify(text[pos] ?? "", bigWord);
+		let probe = pos;
+		while (probe > lineStart && classify(text[probe - 1] ?? "", bigWord) === cls) {
+			probe -= 1;
+		}
+		return probe;
+	};
+	const runEndOf = (pos: number): number => {
+		const cls = classify(text[pos] ?? "", bigWord);
+		let probe = pos;
+		while (probe < lineEnd && classify(text[probe] ?? "", bigWord) === cls) {
+			probe += 1;
+		}
+		return probe;
+	};
+
+	const start = runStartOf(at);
+	const startsOnSpace = classify(text[at] ?? "", bigWord) === "space";
+	let end = start;
+
+	for (let i = 0; i < repeats && end < lineEnd; i++) {
+		end = runEndOf(end);
+		if (!around) {
+			continue;
+		}
+		// "aw" pairs each word with the whitespace run next to it.
+		const endsOnSpace = classify(text[end - 1] ?? "", bigWord) === "space";
+		if (startsOnSpace === endsOnSpace && end < lineEnd) {
+			end = runEndOf(end);
+		}
+	}
+
+	if (around && !startsOnSpace && classify(text[end - 1] ?? "", bigWord) !== "space") {
+		// No trailing whitespace to take: include the whitespace before the word instead.
+		let leading = start;
+		while (leading > lineStart && classify(text[leading - 1] ?? "", bigWord) === "space") {
+			leading -= 1;
+		}
+		return { start: leading, end, linewise: false };
+	}
+
+	return { start, end, linewise: false };
+}
+
+function isEscaped(text: string, index: number, lineStart: number): boolean {
+	let backslashes = 0;
+	for (let probe = index - 1; probe >= lineStart && text[probe] === "\\"; probe--) {
+		backslashes += 1;
+	}
+	return backslashes % 2 === 1;
+}
+
+function findQuoteObject(text: string, index: number, quote: string, around: boolean): TextObjectRange | null {
+	const { start: lineStart, end: lineEnd } = lineBounds(text, index);
+	const quotes: number[] = [];
+	for (let i = lineStart; i < lineEnd; i++) {
+		if (text[i] === quote && !isEscaped(text, i, lineStart)) {
+			quotes.push(i);
+		}
+	}
+
+	let open = -1;
+	let close = -1;
+	for (let i = 0; i + 1 < quotes.length; i += 2) {
+		const first = quotes[i]!;
+		const second = quotes[i + 1]!;
+		if (index >= first && index <= second) {
+			open = first;
+			close = second;
+			break;
+		}
+		if (first > index) {
+			// Cursor is before any enclosing pair: vim selects the next quoted string.
+			open = first;
+			close = second;
+			break;
+		}
+	}
+
+	if (open < 0 || close < 0) {
+		return null;
+	}
+
+	if (!around) {
+		return { start: open + 1, end: close, linewise: false };
+	}
+
+	let end = close + 1;
+	while (end < lineEnd && /[ \t]/.test(text[end] ?? "")) {
+		end += 1;
+	}
+	let start = open;
+	if (end === close + 1) {
+		while (start > lineStart && /[ \t]/.test(text[start - 1] ?? "")) {
+			start -= 1;
+		}
+	}
+	return { start, end, linewise: false };
+}
+
+function findBracketObject(
+	text: string,
+	index: number,
+	openChar: string,
+	closeChar: string,
+	around: boolean,
+	repeats: number,
+): TextObjectRange | null {
+	let open = -1;
+	let searchFrom = text[index] === closeChar ? index - 1 : index;
+	if (text[index] === openChar) {
+		open = index;
+		searchFrom = index - 1;
+	}
+
+	for (let level = 0; level < repeats; level++) {
+		if (level > 0 || open < 0) {
+			open = -1;
+			let depth = 0;
+			for (let probe = searchFrom; probe >= 0; probe--) {
+				const char = text[probe];
+				if (char === closeChar) {
+					depth += 1;
+				} else if (char === openChar) {
+					if (depth === 0) {
+						open = probe;
+						break;
+					}
+					depth -= 1;
+				}
+			}
+		}
+		if (open < 0) {
+			return null;
+		}
+		searchFrom = open - 1;
+	}
+
+	let close = -1;
+	let depth = 0;
+	for (let probe = open + 1; probe < text.length; probe++) {
+		const char = text[probe];
+		if (char === openChar) {
+			depth += 1;
+		} else if (char === closeChar) {
+			if (depth === 0) {
+				close = probe;
+				break;
+			}
+			depth -= 1;
+		}
+	}
+	if (close < 0) {
+		return null;
+	}
+
+	if (around) {
+		return { start: open, end: close + 1, linewise: false };
+	}
+
+	let start = open + 1;
+	let end = close;
+	// Like vim, a block whose brackets sit on their own lines keeps those line breaks.
+	if (text[start] === "\n") {
+		start += 1;
+		const closeLineStart = text.lastIndexOf("\n", close - 1) + 1;
+		if (closeLineStart > start && /^[ \t]*$/.test(text.slice(closeLineStart, close))) {
+			end = closeLineStart;
+		}
+	}
+	return { start, end: Math.max(start, end), linewise: false };
+}
+
+interface TagPair {
+	openStart: number;
+	openEnd: number;
+	closeStart: number;
+	closeEnd: number;
+}
+
+function findTagObject(text: string, index: number, around: boolean, repeats: number): TextObjectRange | null {
+	const tagPattern = /<(\/)?([A-Za-z][\w:.-]*)(?:\s[^<>]*?)?(\/)?>/g;
+	const stack: { name: string; start: number; end: number }[] = [];
+	const pairs: TagPair[] = [];
+
+	for (const match of text.matchAll(tagPattern)) {
+		const start = match.index ?? 0;
+		const end = start + match[0].length;
+		const name = match[2] ?? "";
+		if (match[3]) {
+			continue;
+		}
+		if (!match[1]) {
+			stack.push({ name, start, end });
+			continue;
+		}
+		for (let i = stack.length - 1; i >= 0; i--) {
+			if (stack[i]!.name === name) {
+				const open = stack[i]!;
+				stack.length = i;
+				pairs.push({ openStart: open.start, openEnd: open.end, closeStart: start, closeEnd: end });
+				break;
+			}
+		}
+	}
+
+	const enclosing = pairs
+		.filter((pair) => pair.openStart <= index && index < pair.closeEnd)
+		.sort((a, b) => b.openStart - a.openStart);
+	const pair = enclosing[Math.min(repeats, enclosing.length) - 1];
+	if (!pair) {
+		return null;
+	}
+
+	return around
+		? { start: pair.openStart, end: pair.closeEnd, linewise: false }
+		: { start: pair.openEnd, end: pair.closeStart, linewise: false };
+}
+
+function findParagraphObject(text: string, index: number, around: boolean, repeats: number): TextObjectRange | null {
+	const lines = text.split("\n");
+	const isBlank = (line: number): boolean => /^\s*$/.test(lines[line] ?? "");
+
+	let cursorLine = 0;
+	for (let offset = 0, line = 0; line < lines.length; line++) {
+		const next = offset + (lines[line] ?? "").length + 1;
+		if (index < next || line === lines.length - 1) {
+			cursorLine = line;
+			break;
+		}
+		offset = next;
+	}
+
+	const runEnd = (line: number): number => {
+		const blank = isBlank(line);
+		let probe = line;
+		while (probe + 1 < lines.length && isBlank(probe + 1) === blank) {
+			probe += 1;
+		}
+		return probe;
+	};
+
+	let startLine = cursorLine;
+	while (startLine > 0 && isBlank(startLine - 1) === isBlank(cursorLine)) {
+		startLine -= 1;
+	}
+
+	let endLine = startLine - 1;
+	let takesTrailingBlank = false;
+	for (let i = 0; i < repeats && endLine + 1 < lines.length; i++) {
+		endLine = runEnd(endLine + 1);
+		if (around && endLine + 1 < lines.length) {
+			endLine = runEnd(endLine + 1);
+			takesTrailingBlank = true;
+		}
+	}
+
+	if (around && !takesTrailingBlank && !isBlank(startLine)) {
+		// Last paragraph in the buffer: take the blank lines above it instead.
+		while (startLine > 0 && isBlank(startLine - 1)) {
+			startLine -= 1;
+		}
+	}
+
+	let start = 0;
+	for (let line = 0; line < startLine; line++) {
+		start += (lines[line] ?? "").length + 1;
+	}
+	let end = start;
+	for (let line = startLine; line <= endLine; line++) {
+		end += (lines[line] ?? "").length + 1;
+	}
+	return { start, end: Math.min(text.length, end - 1), linewise: true };
+}
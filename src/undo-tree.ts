@@ -0,0 +1,163 @@
+/**
+ * Undo tree - branching undo history with chronological navigation
+ *
+ * Every change adds a state as a child of the current one, so undoing and then
+ * making a new change starts a branch instead of discarding the old one.
+ *
+ * - undo/redo: walk up to the parent / down the most recently used child (u, U)
+ * - step: move through states in the order they were created (g-, g+)
+ * - travel: jump by elapsed time (:earlier 2m, :later 30s)
+ * - leaves: the tip of every branch (:undolist)
+ *
+ * States are numbered in creation order; the original text is state 0.
+ */
+
+export interface UndoStep<S> {
+	/** State to restore. */
+	state: S;
+	/** Sequence number of the state now current. */
+	seq: number;
+}
+
+export interface UndoLeaf {
+	seq: number;
+	/** Number of changes between the original text and this state. */
+	changes: number;
+	time: number;
+}
+
+interface UndoNode<S> {
+	seq: number;
+	state: S;
+	/** State just before the change, restored when it is undone. */
+	before: S;
+	time: number;
+	parent: UndoNode<S> | null;
+	children: UndoNode<S>[];
+	/** Child that redo follows: the one most recently created or undone from. */
+	redoChild: UndoNode<S> | null;
+	depth: number;
+}
+
+export class UndoTree<S> {
+	private current: UndoNode<S> | null = null;
+	private readonly nodes: UndoNode<S>[] = [];
+
+	constructor(private readonly now: () => number = () => Date.now()) {}
+
+	get seq(): number {
+		return this.current?.seq ?? 0;
+	}
+
+	get lastSeq(): number {
+		return this.nodes.length - 1;
+	}
+
+	/**
+	 * Add a change from `before` to `after`. When `before` is not the current state
+	 * (the text was replaced from outside), it is recorded first so undo still
+	 * reaches it.
+	 */
+	record(before: S, after: S, isSame: (a: S, b: S) => boolean): void {
+		if (!this.current) {
+			this.current = this.createNode(before, before, null);
+		} else if (!isSame(this.current.state, before)) {
+			this.current = this.createNode(this.current.state, before, this.current);
+		}
+		this.current = this.createNode(before, after, this.current);
+	}
+
+	undo(): UndoStep<S> | null {
+		const node = this.current;
+		if (!node?.parent) {
+			return null;
+		}
+		node.parent.redoChild = node;
+		return { state: node.before, seq: this.moveTo(node.parent).seq };
+	}
+
+	redo(): UndoStep<S> | null {
+		const child = this.current?.redoChild;
+		if (!child) {
+			return null;
+		}
+		return this.moveTo(child);
+	}
+
+	/**
+	 * Move `count` states back (negative) or forward in creation order.
+	 */
+	step(count: number): UndoStep<S> | null {
+		if (!this.current) {
+			return null;
+		}
+		const target = Math.max(0, Math.min(this.lastSeq, this.current.seq + count));
+		if (target === this.current.seq) {
+			return null;
+		}
+		return this.goTo(target);
+	}
+
+	/**
+	 * Move to the newest state created at most `seconds` before (negative) or after
+	 * the current one.
+	 */
+	travel(seconds: number): UndoStep<S> | null {
+		if (!this.current) {
+			return null;
+		}
+		const targetTime = this.current.time + seconds * 1000;
+		let target = this.nodes[0]!;
+		for (const node of this.nodes) {
+			if (node.time <= targetTime) {
+				target = node;
+			}
+		}
+		if (target === this.current) {
+			return null;
+		}
+		return this.moveTo(target);
+	}
+
+	goTo(seq: number): UndoStep<S> | null {
+		const node = this.nodes[seq];
+		if (!node) {
+			return null;
+		}
+		return this.moveTo(node);
+	}
+
+	leaves(): UndoLeaf[] {
+		return this.nodes
+			.filter((node) => node.children.length === 0 && node.parent)
+			.map((node) => ({ seq: node.seq, changes: node.depth, time: node.time }));
+	}
+
+	private createNode(before: S, state: S, parent: UndoNode<S> | null): UndoNode<S> {
+		const node: UndoNode<S> = {
+			seq: this.nodes.length,
+			state,
+			before,
+			time: this.now(),
+			parent,
+			children: [],
+			redoChild: null,
+			depth: parent ? parent.depth + 1 : 0,
+		};
+		this.nodes.push(node);
+		if (parent) {
+			parent.children.push(node);
+			parent.redoChild = node;
+		}
+		return node;
+	}
+
+	private moveTo(node: UndoNode<S>): UndoStep<S> {
+		// Make redo from every ancestor lead back down to this state.
+		for (let child = node; child.parent; child = child.parent) {
+			child.parent.redoChild = child;
+		}
+		this.current = node;
+		return { state: node.state, seq: node.seq };
+	}
+}
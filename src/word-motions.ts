@@ -0,0 +1,134 @@
+/**
+ * Word motions - w W e E b B ge gE computed from the text
+ *
+ * Characters fall into vim's classes: whitespace, keyword characters (letters,
+ * combining marks, digits, _) and punctuation. A word is a run of one non-blank class; a WORD is a
+ * run of non-blanks. An empty line counts as a word for w, b and ge, but e skips it.
+ *
+ * All positions are offsets into the joined buffer text.
+ */
+
+export type CharClass = "space" | "word" | "punct";
+
+export function classify(char: string, bigWord: boolean): CharClass {
+	if (/\s/.test(char)) {
+		return "space";
+	}
+	if (bigWord || /[\p{L}\p{M}\p{N}_]/u.test(char)) {
+		return "word";
+	}
+	return "punct";
+}
+
+/**
+ * Whether `index` is the start of an empty line.
+ */
+function isEmptyLine(text: string, index: number): boolean {
+	return (index === 0 || text[index - 1] === "\n") && (index >= text.length || text[index] === "\n");
+}
+
+/**
+ * w / W: start of the `count`th next word. Returns text.length when no word follows.
+ */
+export function wordForward(text: string, index: number, count: number, bigWord: boolean): number {
+	let position = index;
+	for (let step = 0; step < count && position < text.length; step++) {
+		const startClass = classify(text[position]!, bigWord);
+		if (startClass !== "space") {
+			while (position < text.length && classify(text[position]!, bigWord) === startClass) {
+				position += 1;
+			}
+		} else if (text[position] === "\n") {
+			position += 1;
+			if (isEmptyLine(text, position)) {
+				continue;
+			}
+		}
+		while (position < text.length && classify(text[position]!, bigWord) === "space") {
+			if (text[position] === "\n" && isEmptyLine(text, position + 1)) {
+				position += 1;
+				break;
+			}
+			position += 1;
+		}
+	}
+	return Math.min(position, text.length);
+}
+
+/**
+ * e / E: last character of the `count`th next word end. Stays put when there is none.
+ */
+export function wordEndForward(text: string, index: number, count: number, bigWord: boolean): number {
+	let position = index;
+	for (let step = 0; step < count; step++) {
+		let probe = position + 1;
+		while (probe < text.length && classify(text[probe]!, bigWord) === "space") {
+			probe += 1;
+		}
+		if (probe >= text.length) {
+			break;
+		}
+		const wordClass = classify(text[probe]!, bigWord);
+		while (probe + 1 < text.length && classify(text[probe + 1]!, bigWord) === wordClass) {
+			probe += 1;
+		}
+		position = probe;
+	}
+	return position;
+}
+
+/**
+ * End of the word under `index` (cw / cW change only up to here).
+ */
+export function currentWordEnd(text: string, index: number, bigWord: boolean): number {
+	const wordClass = classify(text[index] ?? " ", bigWord);
+	let position = index;
+	while (position + 1 < text.length && classify(text[position + 1]!, bigWord) === wordClass) {
+		position += 1;
+	}
+	return position;
+}
+
+/**
+ * b / B: start of the `count`th previous word.
+ */
+export function wordBackward(text: string, index: number, count: number, bigWord: boolean): number {
+	let position = index;
+	for (let step = 0; step < count && position > 0; step++) {
+		position -= 1;
+		while (position > 0 && classify(text[position]!, bigWord) === "space" && !isEmptyLine(text, position)) {
+			position -= 1;
+		}
+		if (isEmptyLine(text, position)) {
+			continue;
+		}
+		const wordClass = classify(text[position]!, bigWord);
+		while (position > 0 && classify(text[position - 1]!, bigWord) === wordClass) {
+			position -= 1;
+		}
+	}
+	return position;
+}
+
+/**
+ * ge / gE: last character of the `count`th previous word.
+ */
+export function wordEndBackward(text: string, index: number, count: number, bigWord: boolean): number {
+	let position = index;
+	for (let step = 0; step < count && position > 0; step++) {
+		const startClass = position < text.length ? classify(text[position]!, bigWord) : "space";
+		let probe = position;
+		if (startClass === "space") {
+			probe -= 1;
+		} else {
+			while (probe >= 0 && classify(text[probe]!, bigWord) === startClass) {
+				probe -= 1;
+			}
+		}
+		while (probe > 0 && classify(text[probe]!, bigWord) === "space" && !isEmptyLine(text, probe)) {
+			probe -= 1;
+		}
+		position = Math.max(0, probe);
+	}
+	return position;
+}
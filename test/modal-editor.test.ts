@@ -1,9 +1,22 @@
 import assert from "node:assert/strict";
-import { afterEach, beforeEach, describe, it } from "node:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
 import type { ExtensionAPI, Theme } from "@mariozechner/pi-coding-agent";
-import { CURSOR_MARKER, type EditorTheme } from "@mariozechner/pi-tui";
+import { CURSOR_MARKER, Editor, type EditorTheme, visibleWidth } from "@mariozechner/pi-tui";
+import { KeybindingsManager } from "../node_modules/@mariozechner/pi-coding-agent/dist/core/keybindings.js";
 import modalEditorExtension from "../src/index.ts";
 
+// Keep the developer's own vimrc out of the tests.
+const agentDir = mkdtempSync(join(tmpdir(), "pi-vim-test-"));
+process.env.PI_CODING_AGENT_DIR = agentDir;
+const projectDir = mkdtempSync(join(tmpdir(), "pi-vim-project-"));
+// And the developer's clipboard: with no display or tmux, 'clipboard=auto' goes to the fake terminal.
+for (const name of ["DISPLAY", "WAYLAND_DISPLAY", "TMUX", "TERMUX_VERSION"]) {
+	delete process.env[name];
+}
+
 type TestEditor = {
 	handleInput: (data: string) => void;
 	setText: (text: string) => void;
@@ -18,7 +31,13 @@ type RenderableEditor = TestEditor & {
 
 type EditorFactory = (tui: unknown, theme: EditorTheme, keybindings: unknown) => TestEditor;
 
-type SessionStartHandler = (event: unknown, ctx: { ui: { theme: Theme; setEditorComponent: (factory: EditorFactory) => void } }) => void;
+type SessionStartHandler = (
+	event: unknown,
+	ctx: {
+		cwd: string;
+		ui: { theme: Theme; setEditorComponent: (factory: EditorFactory) => void; notify: (message: string) => void };
+	},
+) => void;
 
 const identity = (text: string): string => text;
 
@@ -37,41 +56,65 @@ const appTheme = {
 	fg: (_color: string, text: string) => text,
 } as unknown as Theme;
 
+const terminalWrites: string[] = [];
+type InputListener = (data: string) => { consume?: boolean } | undefined;
+const inputListeners = new Set<InputListener>();
+
 const tuiStub = {
 	requestRender: () => {},
-	terminal: { rows: 24, cols: 80 },
+	start: () => {},
+	stop: () => {},
+	terminal: { rows: 24, cols: 80, write: (data: string) => terminalWrites.push(data) },
+	addInputListener: (listener: InputListener) => {
+		inputListeners.add(listener);
+		return () => inputListeners.delete(listener);
+	},
 };
 
-const keybindingsStub = {
-	matches: (_data: string, _action: string) => false,
-};
+// pi's own app keybindings with their defaults (Ctrl-O expands tools, Ctrl-T toggles thinking, ...);
+// the package only exports the type, so the module is loaded by path.
+const keybindings = KeybindingsManager.inMemory();
+
+/** Messages the extension passed to ctx.ui.notify. */
+const notifications: string[] = [];
+
+/** Event handlers registered by the extension behind the last createEditor. */
+const extensionHandlers = new Map<string, SessionStartHandler>();
 
 function createEditor(): TestEditor {
-	let onSessionStart: SessionStartHandler | undefined;
 	let editorFactory: EditorFactory | undefined;
 
+	extensionHandlers.clear();
 	const extensionApi = {
 		on: (event: string, handler: SessionStartHandler) => {
-			if (event === "session_start") {
-				onSessionStart = handler;
-			}
+			extensionHandlers.set(event, handler);
 		},
 	} as unknown as ExtensionAPI;
 
 	modalEditorExtension(extensionApi);
+	const onSessionStart = extensionHandlers.get("session_start");
 	assert.ok(onSessionStart, "session_start handler should be registered");
 
 	onSessionStart({}, {
+		cwd: projectDir,
 		ui: {
 			theme: appTheme,
 			setEditorComponent: (factory) => {
 				editorFactory = factory;
 			},
+			notify: (message) => notifications.push(message),
 		},
 	});
 
 	assert.ok(editorFactory, "editor factory should be registered");
-	return editorFactory(tuiStub, editorTheme, keybindingsStub);
+	return editorFactory(tuiStub, editorTheme, keybindings);
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+	for (let attempt = 0; attempt < 300 && !condition(); attempt++) {
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+	assert.ok(condition(), "condition not met in time");
 }
 
 function press(editor: TestEditor, ...keys: string[]): void {
@@ -80,6 +123,10 @@ function press(editor: TestEditor, ...keys: string[]): void {
 	}
 }
 
+function exCommand(editor: TestEditor, command: string): void {
+	press(editor, ":", ...command, "\r");
+}
+
 describe("modal-editor extension motions", () => {
 	let editor: TestEditor;
 	let originalWrite: typeof process.stdout.write;
@@ -94,11 +141,15 @@ describe("modal-editor extension motions", () => {
 			}
 			return originalWrite(chunk as never, encoding as never, cb as never);
 		}) as typeof process.stdout.write;
+		terminalWrites.length = 0;
+		notifications.length = 0;
 		editor = createEditor();
 	});
 
 	afterEach(() => {
 		process.stdout.write = originalWrite;
+		rmSync(join(agentDir, "vimrc"), { force: true });
+		rmSync(join(projectDir, ".pi"), { recursive: true, force: true });
 	});
 
 	it("supports core motions h/j/k/l, 0, $, and counts", () => {
@@ -116,24 +167,152 @@ describe("modal-editor extension motions", () => {
 		assert.deepEqual(editor.getCursor(), { line: 1, col: 1 });
 	});
 
+	it("keeps the column across short lines with j and k", () => {
+		editor.setText("abcdef\nab\nabcdef");
+		press(editor, "\x1b", "2", "k", "0", "4", "l", "j");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 2 });
+		press(editor, "j");
+		assert.deepEqual(editor.getCursor(), { line: 2, col: 4 });
+		press(editor, "$", "k", "k");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 6 });
+	});
+
+	it("walks and searches prompt history from normal mode", () => {
+		const history = editor as unknown as { addToHistory: (text: string) => void };
+		history.addToHistory("fix the parser");
+		history.addToHistory("add tests\nfor the lexer");
+		history.addToHistory("update docs");
+
+		editor.setText("draft");
+		press(editor, "\x1b", "k");
+		assert.equal(editor.getText(), "update docs");
+		press(editor, "k");
+		assert.equal(editor.getText(), "add tests\nfor the lexer");
+		assert.equal(editor.getCursor().line, 1);
+		press(editor, "k", "k");
+		assert.equal(editor.getText(), "fix the parser");
+		press(editor, "j");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 0 });
+		press(editor, "j", "j", "j");
+		assert.equal(editor.getText(), "draft");
+		press(editor, "u");
+		assert.equal(editor.getText(), "update docs");
+		press(editor, "U");
+
+		press(editor, "q", "/", "l", "e", "x");
+		assert.equal(editor.getText(), "add tests\nfor the lexer");
+		press(editor, "\x1b");
+		assert.equal(editor.getText(), "draft");
+		press(editor, "q", "/", "t", "\x1b[A", "\r");
+		assert.equal(editor.getText(), "add tests\nfor the lexer");
+		press(editor, "u");
+		assert.equal(editor.getText(), "draft");
+	});
+
+	it("edits the text in $VISUAL with Ctrl-X Ctrl-E", () => {
+		const bin = mkdtempSync(join(tmpdir(), "pi-vim-bin-"));
+		const argsFile = join(bin, "args");
+		// Records its arguments and rewrites the file, the last one.
+		const stub = `#!/bin/sh\necho "$@" > "${argsFile}"\nfor file; do :; done\nprintf 'edited\\nprompt\\n' > "$file"\n`;
+		writeFileSync(join(bin, "vim"), stub, { mode: 0o755 });
+		writeFileSync(join(bin, "code"), stub, { mode: 0o755 });
+		const previous = process.env.VISUAL;
+		process.env.VISUAL = join(bin, "vim");
+		try {
+			editor.setText("one\ntwo\nthree");
+			press(editor, "\x1b", "k", "\x18", "\x05");
+			assert.equal(editor.getText(), "edited\nprompt");
+			assert.match(readFileSync(argsFile, "utf-8").trim(), /^\+2 \S+\.md$/);
+			assert.equal(editor.getCursor().line, 1);
+			press(editor, "u");
+			assert.equal(editor.getText(), "one\ntwo\nthree");
+
+			// Editors that do not know +N only get their own arguments and the file.
+			process.env.VISUAL = `${join(bin, "code")} --wait`;
+			press(editor, "\x18", "\x05");
+			assert.match(readFileSync(argsFile, "utf-8").trim(), /^--wait \S+\.md$/);
+			press(editor, "u");
+
+			writeFileSync(join(bin, "vim"), "#!/bin/sh\nfor file; do :; done\nprintf 'lost' > \"$file\"\nexit 3\n", { mode: 0o755 });
+			process.env.VISUAL = join(bin, "vim");
+			press(editor, "\x18", "\x05");
+			assert.equal(editor.getText(), "one\ntwo\nthree");
+		} finally {
+			if (previous === undefined) {
+				delete process.env.VISUAL;
+			} else {
+				process.env.VISUAL = previous;
+			}
+			rmSync(bin, { recursive: true, force: true });
+		}
+	});
+
+	it("stays responsive with large counts and large buffers", (t) => {
+		// Counted commands cost a fixed number of base-editor calls, not one per step.
+		const baseInput = t.mock.method(Editor.prototype, "handleInput");
+		const baseSetText = t.mock.method(Editor.prototype, "setText");
+		const baseCalls = (): number => baseInput.mock.callCount() + baseSetText.mock.callCount();
+
+		const longLine = "word ".repeat(20000);
+		editor.setText(longLine);
+		press(editor, "\x1b", "0");
+		let before = baseCalls();
+		press(editor, ..."99999l");
+		assert.equal(editor.getCursor().col, 99999);
+		press(editor, ..."99999h");
+		assert.equal(editor.getCursor().col, 0);
+		press(editor, ..."5000x");
+		assert.equal(editor.getText().length, longLine.length - 5000);
+		assert.equal(baseCalls() - before, 1);
+
+		const log = Array.from({ length: 10000 }, (_, i) => `${i}: request handled in ${i % 97}ms`);
+		editor.setText(log.join("\n"));
+		press(editor, "\x1b");
+		before = baseCalls();
+		press(editor, ..."9999k");
+		assert.equal(editor.getCursor().line, 0);
+		press(editor, ..."5000j");
+		assert.equal(editor.getCursor().line, 5000);
+		assert.equal(baseCalls() - before, 0);
+		press(editor, ..."5000k");
+		exCommand(editor, "5000");
+		assert.equal(editor.getCursor().line, 4999);
+		press(editor, "d", "d", ..."2500j", "/", ..."9000:", "\r");
+		assert.deepEqual(editor.getCursor(), { line: 8999, col: 0 });
+		(editor as RenderableEditor).render(80);
+		assert.equal(editor.getText().split("\n").length, 9999);
+	});
+
+	it("sees text pi inserts at the cursor", () => {
+		editor.setText("one two");
+		press(editor, "\x1b", "0", "w");
+		(editor as TestEditor & { insertTextAtCursor: (text: string) => void }).insertTextAtCursor("[image #1]\n");
+		assert.equal(editor.getText(), "one [image #1]\ntwo");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 0 });
+		press(editor, "b");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 13 });
+		press(editor, "w");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 0 });
+	});
+
 	it("supports word/find motions w, b/B, e, E, f/F<char>, t/T<char>", () => {
 		editor.setText("alpha beta gamma");
 		press(editor, "\x1b", "0");
 
 		press(editor, "w");
-		assert.equal(editor.getCursor().col, 5);
+		assert.equal(editor.getCursor().col, 6);
 
 		press(editor, "w");
-		assert.equal(editor.getCursor().col, 10);
+		assert.equal(editor.getCursor().col, 11);
 
 		press(editor, "b");
 		assert.equal(editor.getCursor().col, 6);
 
 		press(editor, "e");
-		assert.equal(editor.getCursor().col, 10);
+		assert.equal(editor.getCursor().col, 9);
 
 		press(editor, "E");
-		assert.equal(editor.getCursor().col, 16);
+		assert.equal(editor.getCursor().col, 15);
 
 		press(editor, "0", "f", "g");
 		assert.equal(editor.getCursor().col, 11);
@@ -161,6 +340,68 @@ describe("modal-editor extension motions", () => {
 		assert.equal(editor.getCursor().col, 0);
 	});
 
+	it("moves by vim word classes across lines with w, W, e, b and ge", () => {
+		editor.setText("foo.bar(baz) qux");
+		press(editor, "\x1b", "0", "w");
+		assert.equal(editor.getCursor().col, 3);
+		press(editor, "2", "w");
+		assert.equal(editor.getCursor().col, 7);
+		press(editor, "0", "W");
+		assert.equal(editor.getCursor().col, 13);
+		press(editor, "g", "e");
+		assert.equal(editor.getCursor().col, 11);
+		press(editor, "0", "e");
+		assert.equal(editor.getCursor().col, 2);
+		press(editor, "0", "d", "w");
+		assert.equal(editor.getText(), ".bar(baz) qux");
+
+		editor.setText("foo\n\n  bar");
+		press(editor, "\x1b", "2", "k", "0", "w");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 0 });
+		press(editor, "w");
+		assert.deepEqual(editor.getCursor(), { line: 2, col: 2 });
+		press(editor, "b", "b");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 0 });
+
+		editor.setText("foo bar\nbaz");
+		press(editor, "\x1b", "k", "0", "w", "d", "w");
+		assert.equal(editor.getText(), "foo \nbaz");
+		press(editor, "0", "c", "w", "X", "\x1b");
+		assert.equal(editor.getText(), "X \nbaz");
+	});
+
+	it("moves, finds and edits by grapheme", () => {
+		editor.setText("a👍🏽b e\u0301t");
+		press(editor, "\x1b", "0", "l");
+		assert.equal(editor.getCursor().col, 1);
+		press(editor, "l");
+		assert.equal(editor.getCursor().col, 5);
+		press(editor, "h", "x");
+		assert.equal(editor.getText(), "ab e\u0301t");
+
+		press(editor, "f", "e\u0301");
+		assert.equal(editor.getCursor().col, 3);
+		press(editor, "~");
+		assert.equal(editor.getText(), "ab E\u0301t");
+		assert.equal(editor.getCursor().col, 5);
+		press(editor, "0", "r", "🎉");
+		assert.equal(editor.getText(), "🎉b E\u0301t");
+
+		editor.setText("x 日本語 y");
+		press(editor, "\x1b", "0", "f", "本", "v", "l", "d");
+		assert.equal(editor.getText(), "x 日 y");
+	});
+
+	it("lines up visual blocks by display width", () => {
+		editor.setText("abcdef\n日本語");
+		press(editor, "\x1b", "k", "0", "2", "l", "\x16", "j", "d");
+		assert.equal(editor.getText(), "abef\n日語");
+
+		editor.setText("ab\n👍x");
+		press(editor, "\x1b", "k", "0", "l", "j");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 0 });
+	});
+
 	it("supports count with backward find motions F/T", () => {
 		editor.setText("XabcXdefXghi");
 		press(editor, "\x1b", "0", "$", "2", "F", "X");
@@ -308,6 +549,18 @@ describe("modal-editor extension motions", () => {
 		assert.equal(editor.getText(), "a\nd");
 	});
 
+	it("leaves the buffer alone for dj on the last line and dk on the first", () => {
+		editor.setText("a\nb\nc");
+		press(editor, "\x1b", "d", "j");
+		assert.equal(editor.getText(), "a\nb\nc");
+
+		press(editor, "k", "k", "d", "k");
+		assert.equal(editor.getText(), "a\nb\nc");
+
+		press(editor, "j", "5", "d", "j");
+		assert.equal(editor.getText(), "a");
+	});
+
 	it("places the visual-mode cursor marker at the actual cursor column", () => {
 		editor.setText("abcdef");
 		press(editor, "\x1b", "0", "3", "l", "v");
@@ -320,6 +573,479 @@ describe("modal-editor extension motions", () => {
 		assert.ok(markerLine.indexOf(CURSOR_MARKER) > 0);
 	});
 
+	it("supports c with motions and the C, s, S, cc shorthands", () => {
+		editor.setText("alpha beta");
+		press(editor, "\x1b", "0", "c", "w", "X", "\x1b");
+		assert.equal(editor.getText(), "X beta");
+
+		editor.setText("foo(bar)");
+		press(editor, "\x1b", "0", "f", "(", "l", "c", "t", ")", "baz", "\x1b");
+		assert.equal(editor.getText(), "foo(baz)");
+
+		editor.setText("abcdef");
+		press(editor, "\x1b", "0", "2", "l", "C", "Z", "\x1b");
+		assert.equal(editor.getText(), "abZ");
+
+		editor.setText("abcdef");
+		press(editor, "\x1b", "0", "2", "s", "Z", "\x1b");
+		assert.equal(editor.getText(), "Zcdef");
+
+		editor.setText("a\nb\nc");
+		press(editor, "\x1b", "k", "c", "c", "X", "\x1b");
+		assert.equal(editor.getText(), "a\nX\nc");
+
+		editor.setText("a\nb\nc");
+		press(editor, "\x1b", "k", "k", "2", "S", "X", "\x1b");
+		assert.equal(editor.getText(), "X\nc");
+	});
+
+	it("supports y with motions and yy without changing the text", () => {
+		editor.setText("alpha beta");
+		press(editor, "\x1b", "0", "y", "w", "$", "p");
+		assert.equal(editor.getText(), "alpha betaalpha ");
+
+		editor.setText("key, value");
+		press(editor, "\x1b", "0", "y", "f", ",");
+		assert.equal(editor.getCursor().col, 0);
+		press(editor, "$", "p");
+		assert.equal(editor.getText(), "key, valuekey,");
+
+		editor.setText("abcdef");
+		press(editor, "\x1b", "0", "3", "l", "y", "$", "0", "p");
+		assert.equal(editor.getText(), "adefbcdef");
+
+		editor.setText("one\ntwo\nthree");
+		press(editor, "\x1b", "k", "k", "y", "j");
+		assert.equal(editor.getText(), "one\ntwo\nthree");
+		press(editor, "j", "j", "$", "p");
+		assert.equal(editor.getText(), "one\ntwo\nthree\none\ntwo");
+	});
+
+	it("writes deleted text to the clipboard", () => {
+		editor.setText("alpha beta");
+		press(editor, "\x1b", "0", "d", "w", "$", "p");
+		assert.equal(editor.getText(), "betaalpha ");
+	});
+
+	it("supports word and WORD text objects with operators", () => {
+		editor.setText("foo bar.baz qux");
+		press(editor, "\x1b", "0", "5", "l", "d", "i", "w");
+		assert.equal(editor.getText(), "foo .baz qux");
+
+		editor.setText("foo bar.baz qux");
+		press(editor, "\x1b", "0", "5", "l", "d", "a", "W");
+		assert.equal(editor.getText(), "foo qux");
+
+		editor.setText("foo bar");
+		press(editor, "\x1b", "0", "5", "l", "d", "a", "w");
+		assert.equal(editor.getText(), "foo");
+
+		editor.setText("one two three");
+		press(editor, "\x1b", "0", "c", "2", "a", "w", "X ", "\x1b");
+		assert.equal(editor.getText(), "X three");
+	});
+
+	it("supports quote, bracket and tag text objects", () => {
+		editor.setText('say "hello world" now');
+		press(editor, "\x1b", "0", "7", "l", "c", "i", '"', "bye", "\x1b");
+		assert.equal(editor.getText(), 'say "bye" now');
+
+		editor.setText("x = 'a' + 'b'");
+		press(editor, "\x1b", "0", "d", "i", "'");
+		assert.equal(editor.getText(), "x = '' + 'b'");
+
+		editor.setText("f(a, g(b), c)");
+		press(editor, "\x1b", "0", "7", "l", "d", "i", "(");
+		assert.equal(editor.getText(), "f(a, g(), c)");
+
+		editor.setText("f(a, g(b), c)");
+		press(editor, "\x1b", "0", "7", "l", "d", "2", "i", "b");
+		assert.equal(editor.getText(), "f()");
+
+		editor.setText("if {\n  body\n}");
+		press(editor, "\x1b", "k", "d", "i", "{");
+		assert.equal(editor.getText(), "if {\n}");
+
+		editor.setText("arr[1] + 2");
+		press(editor, "\x1b", "0", "4", "l", "d", "a", "[");
+		assert.equal(editor.getText(), "arr + 2");
+
+		editor.setText("<a><b>text</b></a>");
+		press(editor, "\x1b", "0", "7", "l", "d", "i", "t");
+		assert.equal(editor.getText(), "<a><b></b></a>");
+
+		press(editor, "d", "a", "t");
+		assert.equal(editor.getText(), "<a></a>");
+	});
+
+	it("supports paragraph text objects and yanking text objects", () => {
+		editor.setText("a\nb\n\nc\nd");
+		press(editor, "\x1b", "k", "k", "k", "k", "d", "a", "p");
+		assert.equal(editor.getText(), "c\nd");
+
+		editor.setText("a\nb\n\nc\nd");
+		press(editor, "\x1b", "d", "i", "p");
+		assert.equal(editor.getText(), "a\nb\n");
+
+		editor.setText("call(arg)");
+		press(editor, "\x1b", "0", "6", "l", "y", "i", "(");
+		assert.equal(editor.getCursor().col, 5);
+		press(editor, "$", "p");
+		assert.equal(editor.getText(), "call(arg)arg");
+	});
+
+	it("expands visual selection with text objects", () => {
+		editor.setText("foo bar baz");
+		press(editor, "\x1b", "0", "5", "l", "v", "i", "w", "d");
+		assert.equal(editor.getText(), "foo  baz");
+
+		editor.setText("(inner text)");
+		press(editor, "\x1b", "0", "3", "l", "v", "a", "(", "y", "$", "p");
+		assert.equal(editor.getText(), "(inner text)(inner text)");
+	});
+
+	it("keeps the last yank in register 0 when deleting", () => {
+		editor.setText("keep\ndrop");
+		press(editor, "\x1b", "k", "0", "y", "w", "j", "d", "d");
+		assert.equal(editor.getText(), "keep");
+
+		press(editor, "$", '"', "0", "p");
+		assert.equal(editor.getText(), "keepkeep");
+
+		press(editor, "p");
+		assert.equal(editor.getText(), "keepkeep\ndrop");
+	});
+
+	it("supports named registers with uppercase append and the black hole register", () => {
+		editor.setText("one two");
+		press(editor, "\x1b", "0", '"', "a", "y", "w", "w", '"', "A", "y", "w");
+		press(editor, '"', "_", "d", "w");
+		assert.equal(editor.getText(), "one ");
+
+		press(editor, '"', "a", "p");
+		assert.equal(editor.getText(), "one one two");
+	});
+
+	it("tracks numbered delete history and the small delete register", () => {
+		editor.setText("a\nb\nxc");
+		press(editor, "\x1b", "0", "l", "d", "l", "k", "k", "d", "d", "d", "d");
+		assert.equal(editor.getText(), "x");
+
+		press(editor, "$", '"', "2", "p");
+		assert.equal(editor.getText(), "x\na");
+
+		press(editor, '"', "1", "p");
+		assert.equal(editor.getText(), "x\na\nb");
+
+		press(editor, '"', "-", "p");
+		assert.equal(editor.getText(), "x\na\nbc");
+	});
+
+	it("repeats the last change with dot, including counts", () => {
+		editor.setText("abcdefgh");
+		press(editor, "\x1b", "0", "2", "x", ".");
+		assert.equal(editor.getText(), "efgh");
+
+		press(editor, "3", ".");
+		assert.equal(editor.getText(), "h");
+
+		editor.setText("one two three four");
+		press(editor, "\x1b", "0", "d", "w", ".");
+		assert.equal(editor.getText(), "three four");
+
+		editor.setText("a b c");
+		press(editor, "\x1b", "0", "c", "i", "w", "X", "\x1b", "f", "b", ".");
+		assert.equal(editor.getText(), "X X c");
+	});
+
+	it("repeats insert sessions and visual deletes with dot", () => {
+		editor.setText("a\nb");
+		press(editor, "\x1b", "k", "A", "!", "\x1b", "j", ".");
+		assert.equal(editor.getText(), "a!\nb!");
+
+		editor.setText("one");
+		press(editor, "\x1b", "o", "x", "y", "\x1b", ".");
+		assert.equal(editor.getText(), "one\nxy\nxy");
+
+		editor.setText("abcdefgh");
+		press(editor, "\x1b", "0", "v", "l", "d", ".");
+		assert.equal(editor.getText(), "efgh");
+	});
+
+	it("repeats counted inserts, and insert sessions given a count by dot", () => {
+		editor.setText("a");
+		press(editor, "\x1b", "0", "3", "i", "a", "\x1b");
+		assert.equal(editor.getText(), "aaaa");
+
+		editor.setText("a");
+		press(editor, "\x1b", "0", "i", "x", "\x1b", "3", ".");
+		assert.equal(editor.getText(), "xxxxa");
+
+		editor.setText("a");
+		press(editor, "\x1b", "o", "x", "\x1b", "3", ".");
+		assert.equal(editor.getText(), "a\nx\nx\nx\nx");
+
+		editor.setText("a\nb");
+		press(editor, "\x1b", "k", "A", "!", "\x1b", "j", "3", ".");
+		assert.equal(editor.getText(), "a!\nb!!!");
+
+		editor.setText("b");
+		press(editor, "\x1b", "2", "O", "a", "\x1b");
+		assert.equal(editor.getText(), "a\na\nb");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 1 });
+
+		press(editor, "u");
+		assert.equal(editor.getText(), "a\nb");
+	});
+
+	it("undoes a dot repeat in a single step", () => {
+		editor.setText("x\ny");
+		press(editor, "\x1b", "k", "A", "1", "2", "\x1b", "j", ".");
+		assert.equal(editor.getText(), "x12\ny12");
+
+		press(editor, "u");
+		assert.equal(editor.getText(), "x12\ny");
+	});
+
+	it("records and plays back macros with counts and @@", () => {
+		editor.setText("a\nb\nc\nd\ne");
+		press(editor, "\x1b", "k", "k", "k", "k", "q", "a", "A", ";", "\x1b", "j", "q");
+		assert.equal(editor.getText(), "a;\nb\nc\nd\ne");
+
+		press(editor, "@", "a");
+		assert.equal(editor.getText(), "a;\nb;\nc\nd\ne");
+
+		press(editor, "2", "@", "a");
+		assert.equal(editor.getText(), "a;\nb;\nc;\nd;\ne");
+
+		press(editor, "@", "@");
+		assert.equal(editor.getText(), "a;\nb;\nc;\nd;\ne;");
+	});
+
+	it("shows the recording register in the mode label", () => {
+		editor.setText("text");
+		press(editor, "\x1b", "q", "b");
+
+		const renderable = editor as RenderableEditor;
+		const lines = renderable.render(40);
+		assert.ok(lines[lines.length - 1]!.includes("recording @b"));
+
+		press(editor, "q");
+		const after = renderable.render(40);
+		assert.ok(!after[after.length - 1]!.includes("recording"));
+	});
+
+	it("shows pending keys, register, selection size and position in the status", () => {
+		editor.setText("one two\nthree\nfour");
+		const renderable = editor as RenderableEditor;
+		const status = (width = 60): string => renderable.render(width).at(-1)!.replaceAll("\x1b[0m", "").replace(/^─*/, "");
+
+		press(editor, "\x1b", "k", "0");
+		assert.equal(status(), " NORMAL 2:1/3 ");
+		press(editor, "k", "w");
+		assert.equal(status(), " NORMAL 1:5/3 ");
+		press(editor, '"', "a", "2", "d");
+		assert.equal(status(), ' NORMAL [2d] "a 1:5/3 ');
+		press(editor, "3");
+		assert.equal(status(), ' NORMAL [2d3] "a 1:5/3 ');
+		press(editor, "\x1b", "q", "q", "v", "l");
+		assert.equal(status(), " VISUAL recording @q 2 chars 1:6/3 ");
+		assert.equal(status(30), " VISUAL recording @q ");
+		press(editor, "j");
+		assert.equal(status(), " VISUAL recording @q 2 lines 2:6/3 ");
+		press(editor, "\x16");
+		assert.equal(status(), " VISUAL BLOCK recording @q 2x2 2:6/3 ");
+		assert.equal(status(12), " VISUAL ");
+	});
+
+	it("stops macro playback when a motion fails", () => {
+		editor.setText("a,b,c");
+		press(editor, "\x1b", "0", "q", "m", "f", ",", "x", "q");
+		assert.equal(editor.getText(), "ab,c");
+
+		press(editor, "1", "0", "@", "m");
+		assert.equal(editor.getText(), "abc");
+	});
+
+	it("stores macros as register text that can be pasted", () => {
+		editor.setText("");
+		press(editor, "\x1b", "q", "a", "i", "h", "i", "<", "\x1b", "q");
+		press(editor, "o", "\x1b", '"', "a", "p");
+		// Special keys are written in key notation rather than going into the prompt as control bytes.
+		assert.equal(editor.getText(), "hi<\nihi<lt><Esc>");
+
+		exCommand(editor, "set insertkeys");
+		press(editor, "o", "\x12", "a");
+		assert.equal(editor.getText(), "hi<\nihi<lt><Esc>\nihi<lt><Esc>");
+
+		press(editor, "\x1b", "@", "a");
+		assert.equal(editor.getText(), "hi<\nihi<lt><Esc>\nihi<lt><Esc>hi<");
+	});
+
+	it("runs a pasted, edited and yanked macro as written", () => {
+		editor.setText("a\nb\nc");
+		press(editor, "\x1b", "k", "k", "q", "a", "A", ";", "\x1b", "j", "q");
+		assert.equal(editor.getText(), "a;\nb\nc");
+
+		press(editor, "j", '"', "a", "p");
+		assert.equal(editor.getText(), "a;\nb\ncA;<Esc>j");
+
+		// Append "!" as well, then yank the edited macro into b and run it on the first line.
+		press(editor, "0", "l", "l", "l", "i", "!", "\x1b", "0", "l", '"', "b", "y", "$");
+		assert.equal(editor.getText(), "a;\nb\ncA;!<Esc>j");
+		press(editor, "k", "k", "@", "b");
+		assert.equal(editor.getText(), "a;;!\nb\ncA;!<Esc>j");
+		assert.equal(editor.getCursor().line, 1);
+	});
+
+	it("searches forward and backward with /, ?, n and N, wrapping around", () => {
+		editor.setText("foo bar\nbaz foo\nfoo");
+		press(editor, "\x1b", "k", "k", "0", "/", "f", "o", "o", "\r");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 4 });
+
+		press(editor, "n");
+		assert.deepEqual(editor.getCursor(), { line: 2, col: 0 });
+
+		press(editor, "n");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 0 });
+
+		press(editor, "N");
+		assert.deepEqual(editor.getCursor(), { line: 2, col: 0 });
+
+		press(editor, "?", "b", "a", "\r");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 0 });
+
+		press(editor, "n");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 4 });
+	});
+
+	it("moves incrementally while typing a search and restores the cursor on escape", () => {
+		editor.setText("alpha beta gamma");
+		press(editor, "\x1b", "0", "/", "g");
+		assert.equal(editor.getCursor().col, 11);
+
+		press(editor, "\x1b");
+		assert.equal(editor.getCursor().col, 0);
+	});
+
+	it("searches for the word under the cursor with * and #", () => {
+		editor.setText("foo food foo");
+		press(editor, "\x1b", "0", "*");
+		assert.equal(editor.getCursor().col, 9);
+
+		press(editor, "#");
+		assert.equal(editor.getCursor().col, 0);
+	});
+
+	it("uses search as an operator motion", () => {
+		editor.setText("keep this; drop");
+		press(editor, "\x1b", "0", "d", "/", ";", "\r");
+		assert.equal(editor.getText(), "; drop");
+	});
+
+	it("shows the search prompt in the border and highlights matches", () => {
+		editor.setText("one two one");
+		press(editor, "\x1b", "0", "/", "o", "n");
+
+		const renderable = editor as RenderableEditor;
+		let lines = renderable.render(40);
+		assert.ok(lines[lines.length - 1]!.startsWith("/on"));
+
+		press(editor, "e", "\r");
+		lines = renderable.render(40);
+		assert.ok(lines.some((line) => line.includes("\x1b[4mone\x1b[0m two \x1b[4mone\x1b[0m")));
+	});
+
+	it("pastes linewise registers on their own lines with p and P", () => {
+		editor.setText("one\ntwo");
+		press(editor, "\x1b", "k", "$", "y", "y", "p");
+		assert.equal(editor.getText(), "one\none\ntwo");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 0 });
+
+		press(editor, "j", "2", "P");
+		assert.equal(editor.getText(), "one\none\none\none\ntwo");
+		assert.deepEqual(editor.getCursor(), { line: 2, col: 0 });
+	});
+
+	it("pastes charwise text before the cursor with P and counts", () => {
+		editor.setText("ab");
+		press(editor, "\x1b", "0", "y", "l", "l", "3", "P");
+		assert.equal(editor.getText(), "aaaab");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 3 });
+	});
+
+	it("leaves the cursor after the pasted text with gp and gP", () => {
+		editor.setText("one\ntwo");
+		press(editor, "\x1b", "k", "y", "y", "g", "p");
+		assert.equal(editor.getText(), "one\none\ntwo");
+		assert.deepEqual(editor.getCursor(), { line: 2, col: 0 });
+
+		editor.setText("xy");
+		press(editor, "0", "y", "l", "g", "P");
+		assert.equal(editor.getText(), "xxy");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 1 });
+	});
+
+	it("adjusts indentation to the current line with ]p", () => {
+		editor.setText("if (a) {\n\tcall();\n}\nfoo();\n\tbar();");
+		press(editor, "\x1b", "k", "y", "y", "k", "k", "]", "p");
+		assert.equal(editor.getText(), "if (a) {\n\tcall();\n\tfoo();\n}\nfoo();\n\tbar();");
+	});
+
+	it("pastes blockwise registers as a column", () => {
+		editor.setText("ab\ncd\nef");
+		press(editor, "\x1b", "k", "k", "0", "\x16", "j", "y", "j", "j", "p");
+		assert.equal(editor.getText(), "ab\ncd\neaf\n c");
+	});
+
+	it("operates on whole lines in visual-line mode", () => {
+		editor.setText("one\ntwo\nthree\nfour");
+		press(editor, "\x1b", "k", "k", "k", "l", "V", "j", "d");
+		assert.equal(editor.getText(), "three\nfour");
+
+		press(editor, "V", "j", "c", "x", "\x1b");
+		assert.equal(editor.getText(), "x");
+	});
+
+	it("deletes, changes and replaces rectangular blocks in visual-block mode", () => {
+		editor.setText("abcd\nefgh\nijkl");
+		press(editor, "\x1b", "k", "k", "0", "l", "\x16", "j", "l", "d");
+		assert.equal(editor.getText(), "ad\neh\nijkl");
+
+		press(editor, "0", "\x16", "j", "j", "r", "x");
+		assert.equal(editor.getText(), "xd\nxh\nxjkl");
+	});
+
+	it("inserts and appends on every line of a block", () => {
+		editor.setText("ab\ncdef\ng");
+		press(editor, "\x1b", "k", "k", "0", "\x16", "j", "j", "I", "-", " ", "\x1b");
+		assert.equal(editor.getText(), "- ab\n- cdef\n- g");
+
+		press(editor, "k", "k", "\x16", "j", "j", "$", "A", ";", "\x1b");
+		assert.equal(editor.getText(), "- ab;\n- cdef;\n- g;");
+	});
+
+	it("switches between visual modes and labels each one", () => {
+		editor.setText("abc\ndef");
+		const renderable = editor as RenderableEditor;
+		const label = (): string => {
+			const lines = renderable.render(40);
+			return lines[lines.length - 1]!;
+		};
+
+		press(editor, "\x1b", "V");
+		assert.ok(label().includes("VISUAL LINE"));
+
+		press(editor, "\x16");
+		assert.ok(label().includes("VISUAL BLOCK"));
+
+		press(editor, "v");
+		assert.ok(label().includes("VISUAL") && !label().includes("VISUAL BLOCK"));
+
+		press(editor, "v");
+		assert.ok(label().includes("NORMAL"));
+	});
+
 	it("supports undo/redo with u and U", () => {
 		editor.setText("abcdef");
 		press(editor, "\x1b", "0", "x");
@@ -331,4 +1057,620 @@ describe("modal-editor extension motions", () => {
 		press(editor, "U");
 		assert.equal(editor.getText(), "bcdef");
 	});
+
+	it("keeps undone branches reachable with g- and g+", () => {
+		editor.setText("one");
+		press(editor, "\x1b", "0", "x");
+		assert.equal(editor.getText(), "ne");
+
+		press(editor, "u", "0", "l", "x", "x");
+		assert.equal(editor.getText(), "o");
+
+		press(editor, "g", "-");
+		assert.equal(editor.getText(), "oe");
+		press(editor, "g", "-");
+		assert.equal(editor.getText(), "ne");
+		press(editor, "g", "-");
+		assert.equal(editor.getText(), "one");
+
+		press(editor, "3", "g", "+");
+		assert.equal(editor.getText(), "o");
+		press(editor, "u");
+		assert.equal(editor.getText(), "oe");
+	});
+
+	it("lists undo branches with :undolist", () => {
+		editor.setText("abc");
+		press(editor, "\x1b", "0", "x", "u", "l", "x");
+
+		const renderable = editor as RenderableEditor;
+		press(editor, ":", "u", "n", "d", "o", "l", "i", "s", "t", "\r");
+		const lines = renderable.render(40);
+		assert.equal(lines[lines.length - 3], "number changes  when");
+		assert.ok(lines[lines.length - 2]!.startsWith("     1       1  "));
+		assert.ok(lines[lines.length - 1]!.startsWith("     2       1  "));
+
+		press(editor, "l");
+		assert.notEqual(renderable.render(40).at(-1), lines.at(-1));
+	});
+
+	it("travels through undo states by time with :earlier and :later", () => {
+		mock.timers.enable({ apis: ["Date"], now: 0 });
+		try {
+			editor.setText("a");
+			press(editor, "\x1b", "A", "b");
+			mock.timers.tick(120_000);
+			press(editor, "c");
+			mock.timers.tick(120_000);
+			press(editor, "d", "\x1b");
+			assert.equal(editor.getText(), "abcd");
+
+			press(editor, ":", "e", "a", "r", "l", "i", "e", "r", " ", "3", "m", "\r");
+			assert.equal(editor.getText(), "ab");
+
+			press(editor, ":", "l", "a", "t", "e", "r", " ", "2", "m", "\r");
+			assert.equal(editor.getText(), "abc");
+
+			press(editor, ":", "e", "a", "r", "l", "i", "e", "r", "\r");
+			assert.equal(editor.getText(), "ab");
+		} finally {
+			mock.timers.reset();
+		}
+	});
+
+	it("reports unknown ex commands", () => {
+		editor.setText("text");
+		press(editor, "\x1b", ":", "b", "o", "g", "u", "s", "\r");
+		const lines = (editor as RenderableEditor).render(40);
+		assert.equal(lines.at(-1), "E492: Not an editor command: bogus");
+	});
+
+	it("substitutes with ranges, flags and capture groups", () => {
+		editor.setText("foo foo\nfoo\nbar foo");
+		press(editor, "\x1b");
+		exCommand(editor, "%s/foo/baz/");
+		assert.equal(editor.getText(), "baz foo\nbaz\nbar baz");
+
+		exCommand(editor, "1s/o/0/g");
+		assert.equal(editor.getText(), "baz f00\nbaz\nbar baz");
+
+		editor.setText("a=1\nb=2\nc=3");
+		exCommand(editor, "2,$s/\\(\\w\\+\\)=\\(\\w\\+\\)/\\2=\\1/");
+		assert.equal(editor.getText(), "a=1\n2=b\n3=c");
+
+		exCommand(editor, "1s/=/\\n/");
+		assert.equal(editor.getText(), "a\n1\n2=b\n3=c");
+
+		press(editor, "u");
+		assert.equal(editor.getText(), "a=1\n2=b\n3=c");
+	});
+
+	it("reads patterns with vim's magic syntax", () => {
+		editor.setText("one two\nfoo bar\nfood");
+		press(editor, "\x1b");
+		exCommand(editor, "1s/\\(\\w\\+\\) \\(\\w\\+\\)/\\2 \\1/");
+		assert.equal(editor.getText(), "two one\nfoo bar\nfood");
+
+		exCommand(editor, "2,$s/\\<foo\\>\\|bar/X/g");
+		assert.equal(editor.getText(), "two one\nX X\nfood");
+
+		// Bare ( ) | + ? { } are literal; \= \? \{n,m} and \%( are quantifiers and groups.
+		editor.setText("f(a|b)+c? x{2}\ncolor colour\naaaa");
+		exCommand(editor, "1s/(a|b)+c? x{2}/ok/");
+		assert.equal(editor.getText(), "fok\ncolor colour\naaaa");
+		exCommand(editor, "2s/colou\\=r/C/g");
+		assert.equal(editor.getText(), "fok\nC C\naaaa");
+		exCommand(editor, "3s/a\\{2}/b/g");
+		assert.equal(editor.getText(), "fok\nC C\nbb");
+		exCommand(editor, "3s/\\%(b\\)\\{-1,}/c/");
+		assert.equal(editor.getText(), "fok\nC C\ncb");
+
+		// Lines split by \n are skipped, and the range still reaches the last line.
+		editor.setText("a,b,c\nd,e");
+		exCommand(editor, "%s/,/\\n/g");
+		assert.equal(editor.getText(), "a\nb\nc\nd\ne");
+	});
+
+	it("reports a substitute pattern that does not match", () => {
+		editor.setText("abc");
+		press(editor, "\x1b");
+		exCommand(editor, "s/x/y/");
+		const lines = (editor as RenderableEditor).render(40);
+		assert.equal(lines.at(-1), "E486: Pattern not found: x");
+		assert.equal(editor.getText(), "abc");
+	});
+
+	it("runs ex commands on the last visual selection with '<,'>", () => {
+		editor.setText("one\ntwo\nthree\nfour");
+		press(editor, "\x1b", "k", "k", "V", "j", ":");
+		const lines = (editor as RenderableEditor).render(40);
+		assert.ok(lines[lines.length - 1]!.startsWith(":'<,'>"));
+
+		press(editor, ..."s/^/- /", "\r");
+		assert.equal(editor.getText(), "one\n- two\n- three\nfour");
+	});
+
+	it("deletes, moves and copies lines with :d, :m and :t", () => {
+		editor.setText("1\n2\n3\n4\n5");
+		press(editor, "\x1b");
+		exCommand(editor, "2,3d");
+		assert.equal(editor.getText(), "1\n4\n5");
+		press(editor, "p");
+		assert.equal(editor.getText(), "1\n4\n2\n3\n5");
+
+		exCommand(editor, "1m$");
+		assert.equal(editor.getText(), "4\n2\n3\n5\n1");
+
+		exCommand(editor, "1,2t0");
+		assert.equal(editor.getText(), "4\n2\n4\n2\n3\n5\n1");
+	});
+
+	it("runs commands on matching lines with :g and :v", () => {
+		editor.setText("keep 1\ndrop 2\nkeep 3\ndrop 4");
+		press(editor, "\x1b");
+		exCommand(editor, "g/drop/d");
+		assert.equal(editor.getText(), "keep 1\nkeep 3");
+
+		editor.setText("a\nb\nc");
+		exCommand(editor, "g/^/m0");
+		assert.equal(editor.getText(), "c\nb\na");
+
+		editor.setText("x1\ny\nx2");
+		exCommand(editor, "v/x/s/$/!/");
+		assert.equal(editor.getText(), "x1\ny!\nx2");
+
+		exCommand(editor, "g/x/normal Ad");
+		assert.equal(editor.getText(), "x1d\ny!\nx2d");
+	});
+
+	it("runs normal-mode keys on each line with :normal", () => {
+		editor.setText("alpha\nbeta\ngamma");
+		press(editor, "\x1b");
+		exCommand(editor, "%norm I- ");
+		assert.equal(editor.getText(), "- alpha\n- beta\n- gamma");
+
+		press(editor, "u");
+		assert.equal(editor.getText(), "alpha\nbeta\ngamma");
+	});
+
+	it("clears search highlighting with :noh and recalls ex history", () => {
+		editor.setText("one two one");
+		press(editor, "\x1b", "0", "/", "o", "n", "e", "\r");
+		const renderable = editor as RenderableEditor;
+		assert.ok(renderable.render(40).some((line) => line.includes("\x1b[4mone")));
+
+		exCommand(editor, "noh");
+		assert.ok(!renderable.render(40).some((line) => line.includes("\x1b[4m")));
+
+		press(editor, ":", "\x1b[A");
+		const lines = renderable.render(40);
+		assert.ok(lines[lines.length - 1]!.startsWith(":noh"));
+	});
+
+	it("goes to a line with a bare range", () => {
+		editor.setText("a\n  b\nc");
+		press(editor, "\x1b");
+		exCommand(editor, "2");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 2 });
+	});
+
+	it("applies recursive and non-recursive normal-mode mappings", () => {
+		editor.setText("abc def");
+		press(editor, "\x1b", "0");
+		exCommand(editor, "nnoremap Y y$");
+		press(editor, "f", "d", "Y", "0", "P");
+		assert.equal(editor.getText(), "defabc def");
+
+		exCommand(editor, "nmap Q x");
+		exCommand(editor, "nmap W Q");
+		press(editor, "0", "W");
+		assert.equal(editor.getText(), "efabc def");
+
+		exCommand(editor, "nnoremap K Q");
+		press(editor, "K");
+		assert.equal(editor.getText(), "efabc def");
+
+		exCommand(editor, "nunmap W");
+		press(editor, "W");
+		assert.equal(editor.getText(), "efabc def");
+	});
+
+	it("expands <leader> and special keys in mappings", () => {
+		editor.setText("one\ntwo");
+		press(editor, "\x1b");
+		exCommand(editor, 'let mapleader = ","');
+		exCommand(editor, "nnoremap <leader>d ddi!<Esc>");
+		press(editor, ",", "d");
+		assert.equal(editor.getText(), "!one");
+		assert.ok((editor as RenderableEditor).render(40).at(-1)!.includes("NORMAL"));
+	});
+
+	it("waits for longer mappings until the timeout", () => {
+		mock.timers.enable({ apis: ["setTimeout"] });
+		try {
+			editor.setText("abc\ndef");
+			press(editor, "\x1b", "0");
+			exCommand(editor, "set timeoutlen=500");
+			exCommand(editor, "nnoremap , x");
+			exCommand(editor, "nnoremap ,, dd");
+
+			press(editor, ",");
+			assert.equal(editor.getText(), "abc\ndef");
+			mock.timers.tick(500);
+			assert.equal(editor.getText(), "abc\nef");
+
+			press(editor, ",", ",");
+			assert.equal(editor.getText(), "abc");
+		} finally {
+			mock.timers.reset();
+		}
+	});
+
+	it("applies visual and insert mode mappings", () => {
+		editor.setText("abc");
+		press(editor, "\x1b", "0");
+		exCommand(editor, "vnoremap q d");
+		press(editor, "v", "l", "q");
+		assert.equal(editor.getText(), "c");
+
+		exCommand(editor, "inoremap <C-l> <Esc>");
+		press(editor, "i", "x", "\x0c");
+		assert.equal(editor.getText(), "xc");
+		assert.ok((editor as RenderableEditor).render(40).at(-1)!.includes("NORMAL"));
+	});
+
+	it("loads mappings from the vimrc at session start", () => {
+		writeFileSync(join(agentDir, "vimrc"), '" swap ; and :\nnnoremap ; :\n\nnnoremap X dd\n');
+		editor = createEditor();
+		editor.setText("one\ntwo");
+		press(editor, "\x1b", "X");
+		assert.equal(editor.getText(), "one");
+
+		press(editor, ";", "s", "/", "o", "/", "0", "/", "\r");
+		assert.equal(editor.getText(), "0ne");
+	});
+
+	it("leaves insert mode with jk without inserting the j or adding undo steps", () => {
+		editor.setText("x");
+		press(editor, "\x1b");
+		exCommand(editor, "inoremap jk <Esc>");
+		press(editor, "A", "a", "j", "k");
+		assert.equal(editor.getText(), "xa");
+		assert.ok((editor as RenderableEditor).render(40).at(-1)!.includes("NORMAL"));
+
+		press(editor, "u");
+		assert.equal(editor.getText(), "x");
+		press(editor, "U");
+		assert.equal(editor.getText(), "xa");
+	});
+
+	it("shows a held-back insert key and inserts it after the timeout", () => {
+		mock.timers.enable({ apis: ["setTimeout"] });
+		try {
+			editor.setText("x");
+			press(editor, "\x1b");
+			exCommand(editor, "inoremap jk <Esc>");
+			press(editor, "A", "j");
+			assert.equal(editor.getText(), "x");
+			const renderable = editor as RenderableEditor;
+			assert.ok(renderable.render(40).some((line) => line.includes("x\x1b[2mj\x1b[0m")));
+
+			mock.timers.tick(1000);
+			assert.equal(editor.getText(), "xj");
+			assert.ok(renderable.render(40).at(-1)!.includes("INSERT"));
+
+			press(editor, "j", "x");
+			assert.equal(editor.getText(), "xjjx");
+		} finally {
+			mock.timers.reset();
+		}
+	});
+
+	it("sets, queries and validates options with :set", () => {
+		editor.setText("x Foo foo");
+		press(editor, "\x1b", "0", "/", "f", "o", "o", "\r");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 6 });
+
+		exCommand(editor, "set ic scs");
+		press(editor, "0", "/", "f", "o", "o", "\r");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 2 });
+		press(editor, "0", "/", "F", "O", "O", "\r");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 0 });
+
+		const renderable = editor as RenderableEditor;
+		exCommand(editor, "set noscs ic? tm?");
+		assert.deepEqual(renderable.render(40).slice(-2), ["  ignorecase", "  timeoutlen=1000"]);
+		exCommand(editor, "set invic");
+		exCommand(editor, "set");
+		assert.deepEqual(renderable.render(40).slice(-1), ["--- Options ---"]);
+
+		exCommand(editor, "set tm=abc");
+		assert.equal(renderable.render(40).at(-1), "E521: Number required after =: tm=abc");
+		exCommand(editor, "set startmode=visual");
+		assert.equal(renderable.render(40).at(-1), "E474: Invalid argument: startmode=visual");
+		exCommand(editor, "set bogus");
+		assert.equal(renderable.render(40).at(-1), "E518: Unknown option: bogus");
+	});
+
+	it("numbers lines in a gutter with absolute, relative and hybrid numbering", () => {
+		editor.setText("one\ntwo\nthree");
+		press(editor, "\x1b", "k");
+		const renderable = editor as RenderableEditor;
+		const gutter = () => renderable.render(40).slice(1, 4).map((line) => line.slice(0, 6));
+
+		exCommand(editor, "set nu");
+		assert.deepEqual(gutter(), ["  1 on", "  2 tw", "  3 th"]);
+		exCommand(editor, "set nonu rnu");
+		assert.deepEqual(gutter(), ["  1 on", "  0 tw", "  1 th"]);
+		exCommand(editor, "set nu");
+		assert.deepEqual(gutter(), ["  1 on", "  2 tw", "  1 th"]);
+		assert.ok(renderable.render(40).every((line) => visibleWidth(line) <= 40));
+
+		editor.setText("abcdefghijklmnopqrstuvwxyz\nend");
+		press(editor, "\x1b");
+		const wrapped = renderable.render(20).slice(1, 4).map((line) => line.slice(0, 4));
+		assert.deepEqual(wrapped, ["  1 ", "    ", "  2 "]);
+	});
+
+	it("sets the terminal cursor shape per mode and restores it", () => {
+		editor.setText("text");
+		const renderable = editor as RenderableEditor;
+		renderable.focused = true;
+		const shapeAfter = (...keys: string[]) => {
+			press(editor, ...keys);
+			terminalWrites.length = 0;
+			renderable.render(40);
+			return terminalWrites.join("");
+		};
+
+		assert.equal(shapeAfter(), "\x1b[6 q");
+		assert.equal(shapeAfter(), "");
+		assert.equal(shapeAfter("\x1b"), "\x1b[2 q");
+		assert.equal(shapeAfter("d"), "\x1b[4 q");
+		assert.equal(shapeAfter("\x1b", "v"), "\x1b[2 q");
+		assert.equal(shapeAfter("\x1b", "R"), "\x1b[4 q");
+
+		press(editor, "\x1b");
+		exCommand(editor, "set gcr=n:bar");
+		assert.equal(shapeAfter(), "\x1b[6 q");
+		assert.equal(shapeAfter("i"), "\x1b[0 q");
+		assert.equal(shapeAfter("\x1b"), "\x1b[6 q");
+		exCommand(editor, "set gcr=i:beam");
+		assert.equal(renderable.render(40).at(-1), "E474: Invalid argument: gcr=i:beam");
+
+		terminalWrites.length = 0;
+		extensionHandlers.get("session_shutdown")!({}, undefined as never);
+		assert.deepEqual(terminalWrites, ["\x1b[0 q"]);
+	});
+
+	it("loads options from the project vimrc after the user vimrc", () => {
+		writeFileSync(join(agentDir, "vimrc"), "set startmode=normal cb=internal\nset maxheight=20\n");
+		mkdirSync(join(projectDir, ".pi"));
+		writeFileSync(join(projectDir, ".pi", "vimrc"), "set maxheight=50\n");
+		editor = createEditor();
+		const renderable = editor as RenderableEditor;
+		assert.ok(renderable.render(40).at(-1)!.includes("NORMAL"));
+
+		editor.setText(Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n"));
+		// 50% of the 24 terminal rows, plus the two borders.
+		assert.equal(renderable.render(40).length, 14);
+
+		press(editor, "0", '"', "+", "y", "l", "$", '"', "+", "p");
+		assert.equal(editor.getText().split("\n").at(-1), "line 19l");
+	});
+
+	it("only runs :set from the project vimrc and reports unreadable ones", () => {
+		mkdirSync(join(projectDir, ".pi"));
+		writeFileSync(join(projectDir, ".pi", "vimrc"), "set startmode=normal\ninoremap a b\nnormal! ix\n");
+		editor = createEditor();
+		assert.equal(notifications.length, 1);
+		assert.ok(notifications[0]!.includes("line 2: E12: Command not allowed in a project vimrc: inoremap a b"));
+		assert.ok(notifications[0]!.includes("line 3: E12"));
+		editor.setText("");
+		press(editor, "i", "a");
+		assert.equal(editor.getText(), "a");
+
+		rmSync(join(projectDir, ".pi", "vimrc"));
+		mkdirSync(join(projectDir, ".pi", "vimrc"));
+		notifications.length = 0;
+		editor = createEditor();
+		assert.equal(notifications.length, 1);
+		assert.ok(notifications[0]!.includes("EISDIR"));
+	});
+
+	it("reads the clipboard without blocking and reports clipboard errors", async () => {
+		const bin = mkdtempSync(join(tmpdir(), "pi-vim-bin-"));
+		const contents = join(bin, "contents");
+		const xclip = join(bin, "xclip");
+		writeFileSync(xclip, `#!/bin/sh\nif [ "$3" = "-o" ]; then cat "${contents}"; else cat > "${contents}"; fi\n`, { mode: 0o755 });
+		const path = process.env.PATH;
+		process.env.PATH = `${bin}:${path}`;
+		const renderable = editor as RenderableEditor;
+		try {
+			editor.setText("one two");
+			press(editor, "\x1b");
+			exCommand(editor, "set clipboard=system");
+			press(editor, "0", "y", "i", "w");
+			await waitFor(() => existsSync(contents) && readFileSync(contents, "utf8") === "one");
+
+			writeFileSync(contents, "fresh");
+			press(editor, '"', "+", "p");
+			// p waits for the read instead of pasting the cached "one".
+			assert.equal(editor.getText(), "one two");
+			await waitFor(() => editor.getText() !== "one two");
+			assert.equal(editor.getText(), "ofreshne two");
+
+			writeFileSync(xclip, "#!/bin/sh\necho \"Error: Can't open display\" >&2\nexit 1\n");
+			press(editor, "u", '"', "+", "P");
+			await waitFor(() => renderable.render(40).at(-1)!.startsWith("clipboard:"));
+			assert.equal(renderable.render(60).at(-1), "clipboard: xclip: Error: Can't open display");
+			assert.equal(editor.getText(), "freshone two");
+
+			exCommand(editor, "set clipboard=osc52");
+			press(editor, "0", "y", "w");
+			assert.equal(terminalWrites.at(-1), `\x1b]52;c;${Buffer.from("freshone ").toString("base64")}\x07`);
+			press(editor, '"', "*", "P");
+			assert.equal(terminalWrites.at(-1), "\x1b]52;c;?\x07");
+			for (const listener of inputListeners) {
+				listener(`\x1b]52;c;${Buffer.from("osc ").toString("base64")}\x07`);
+			}
+			await waitFor(() => editor.getText() !== "freshone two");
+			assert.equal(editor.getText(), "osc freshone two");
+		} finally {
+			process.env.PATH = path;
+			rmSync(bin, { recursive: true, force: true });
+		}
+	});
+
+	it("runs one normal-mode command from insert mode with Ctrl-O", () => {
+		editor.setText("");
+		const renderable = editor as RenderableEditor;
+		press(editor, "\x1b");
+		exCommand(editor, "set insertkeys");
+		press(editor, "i", ..."one two", "\x0f", "0", "X");
+		assert.equal(editor.getText(), "Xone two");
+
+		press(editor, "\x0f");
+		assert.ok(renderable.render(40).at(-1)!.includes("(INSERT)"));
+		press(editor, "d", "w", "Y");
+		assert.equal(editor.getText(), "XYtwo");
+		press(editor, "\x0f", "\x1b", "Z");
+		assert.equal(editor.getText(), "XYZtwo");
+		press(editor, "\x0f", "v", "l");
+		assert.ok(renderable.render(40).at(-1)!.includes("(INSERT) VISUAL"));
+		press(editor, "d", "!");
+		assert.equal(editor.getText(), "XYZ!o");
+	});
+
+	it("inserts registers, deletes typed text and shifts lines with insert-mode control keys", () => {
+		editor.setText("");
+		press(editor, "\x1b");
+		exCommand(editor, "set insertkeys");
+		press(editor, "i", ..."ab", "\x0f", '"', "a", "y", "i", "w", "\x12", "a", "c");
+		assert.equal(editor.getText(), "abcab");
+		press(editor, "\x15");
+		assert.equal(editor.getText(), "ab");
+
+		editor.setText("x");
+		press(editor, "\x14", "\x14");
+		assert.equal(editor.getText(), "    x");
+		press(editor, "\x04");
+		assert.deepEqual([editor.getText(), editor.getCursor().col], ["  x", 3]);
+		press(editor, "y", "\x15");
+		assert.equal(editor.getText(), "  x");
+
+		press(editor, "\x1b");
+		exCommand(editor, "set noinsertkeys");
+		press(editor, "A", "\x14", "\x12", "a");
+		assert.equal(editor.getText(), "  xa");
+	});
+
+	it("leaves Ctrl-O and Ctrl-T to pi unless insertkeys is set", () => {
+		const actions: string[] = [];
+		const piEditor = editor as TestEditor & { onAction: (action: string, handler: () => void) => void };
+		piEditor.onAction("expandTools", () => actions.push("expandTools"));
+		piEditor.onAction("toggleThinking", () => actions.push("toggleThinking"));
+		editor.setText("");
+		press(editor, "x", "\x0f", "\x14", "\x15");
+		assert.deepEqual(actions, ["expandTools", "toggleThinking"]);
+		assert.equal(editor.getText(), "");
+
+		press(editor, "\x1b");
+		exCommand(editor, "set insertkeys");
+		press(editor, "i", "y", "\x14", "\x0f", "0", "z", "\x04");
+		assert.deepEqual(actions, ["expandTools", "toggleThinking"]);
+		assert.equal(editor.getText(), "z  y");
+
+		press(editor, "\x1b", "\x14");
+		assert.deepEqual(actions, ["expandTools", "toggleThinking", "toggleThinking"]);
+	});
+
+	it("replaces characters with r{char} and toggles case with ~", () => {
+		editor.setText("abcdef");
+		press(editor, "\x1b", "0", "3", "r", "x");
+		assert.equal(editor.getText(), "xxxdef");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 2 });
+
+		press(editor, "l", ".");
+		assert.equal(editor.getText(), "xxxxxx");
+		press(editor, "0", "9", "r", "y");
+		assert.equal(editor.getText(), "xxxxxx");
+
+		press(editor, "0", "l", "r", "\r");
+		assert.equal(editor.getText(), "x\nxxxx");
+
+		editor.setText("Hello");
+		press(editor, "\x1b", "0", "3", "~");
+		assert.equal(editor.getText(), "hELlo");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 3 });
+		press(editor, "~", "~");
+		assert.equal(editor.getText(), "hELLO");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 4 });
+	});
+
+	it("overtypes in replace mode and restores characters with backspace", () => {
+		editor.setText("abc");
+		press(editor, "\x1b", "0", "l", "R", "X", "Y", "Z");
+		assert.equal(editor.getText(), "aXYZ");
+		assert.ok((editor as RenderableEditor).render(40).at(-1)!.includes("REPLACE"));
+
+		press(editor, "\x7f", "\x7f");
+		assert.equal(editor.getText(), "aXc");
+		press(editor, "\x1b");
+		assert.ok((editor as RenderableEditor).render(40).at(-1)!.includes("NORMAL"));
+	});
+
+	it("changes case with g~, gu and gU operators", () => {
+		editor.setText("foo bar\nBaz Qux");
+		press(editor, "\x1b", "k", "0", "g", "U", "i", "w");
+		assert.equal(editor.getText(), "FOO bar\nBaz Qux");
+
+		press(editor, "g", "~", "f", "r");
+		assert.equal(editor.getText(), "foo BAR\nBaz Qux");
+
+		press(editor, "j", "g", "u", "u");
+		assert.equal(editor.getText(), "foo BAR\nbaz qux");
+		press(editor, "g", "U", "g", "U");
+		assert.equal(editor.getText(), "foo BAR\nBAZ QUX");
+
+		press(editor, "k", "0", "v", "e", "~");
+		assert.equal(editor.getText(), "FOO BAR\nBAZ QUX");
+		press(editor, "V", "j", "g", "u");
+		assert.equal(editor.getText(), "foo bar\nbaz qux");
+	});
+
+	it("sets marks that follow edits and uses them as motions", () => {
+		editor.setText("one\ntwo\nthree\nfour");
+		press(editor, "\x1b", "2", "k", "0", "l", "m", "a", "j", "j");
+		press(editor, "`", "a");
+		assert.deepEqual(editor.getCursor(), { line: 1, col: 1 });
+
+		press(editor, "k", "O", "z", "e", "r", "o", "\x1b", "j", "j", "j");
+		press(editor, "'", "a");
+		assert.deepEqual(editor.getCursor(), { line: 2, col: 0 });
+
+		press(editor, "j", "j", "d", "'", "a");
+		assert.equal(editor.getText(), "zero\none");
+		press(editor, "'", "b");
+		assert.equal((editor as RenderableEditor).render(40).at(-1), "E20: Mark not set");
+	});
+
+	it("walks the jumplist with Ctrl-O and Ctrl-I and returns with ``", () => {
+		editor.setText("alpha\nbeta\ngamma\ndelta");
+		press(editor, "\x1b", "3", "k", "0", "/", "g", "a", "m", "\r");
+		press(editor, "/", "d", "e", "l", "\r");
+		assert.deepEqual(editor.getCursor(), { line: 3, col: 0 });
+
+		press(editor, "\x0f");
+		assert.deepEqual(editor.getCursor(), { line: 2, col: 0 });
+		press(editor, "\x0f");
+		assert.deepEqual(editor.getCursor(), { line: 0, col: 0 });
+		press(editor, "\t", "\t");
+		assert.deepEqual(editor.getCursor(), { line: 3, col: 0 });
+
+		press(editor, "`", "`");
+		assert.deepEqual(editor.getCursor(), { line: 2, col: 0 });
+		press(editor, "l", "x", "`", "[");
+		assert.deepEqual(editor.getCursor(), { line: 2, col: 1 });
+	});
 });